@@ -0,0 +1,143 @@
+import type { Knex } from 'knex';
+import type { Logger } from '../shared/types';
+import { toList } from '../shared/utils';
+
+/**
+ * Who may sign in with a magic link
+ *
+ * Checked when a link is requested and again when it's used:
+ * - the user's status has to be `active`
+ * - MAGIC_LINK_ALLOWED_ROLES / MAGIC_LINK_DISALLOWED_ROLES (or the role lists of
+ *   the runtime settings, see setRoles), by role ID or name
+ * - the allowed roles of the client the link is for, if it has any
+ * - MAGIC_LINK_ALLOWED_POLICIES / MAGIC_LINK_DISALLOWED_POLICIES, by policy ID or
+ *   name (Directus 11), counting policies attached to the user, their role and
+ *   the role's parents
+ *
+ * The reasons returned are stored in extension_magic_link.email_error for auditing.
+ */
+
+export type AccessDenial =
+	| 'User not active'
+	| 'User role not allowed'
+	| 'User role disallowed'
+	| 'User role not allowed for client'
+	| 'User policy not allowed'
+	| 'User policy disallowed';
+
+export interface AccessUser {
+	id: string | null;
+	role: string | null;
+	status?: string;
+}
+
+interface NamedItem {
+	id: string;
+	name: string;
+}
+
+function matchesAny(items: NamedItem[], list: string[]): boolean {
+	return items.some((item) => list.includes(item.id) || list.includes(item.name));
+}
+
+export function createAccessPolicy(database: Knex, env: Record<string, any>, logger: Logger) {
+	let allowedRoles = toList(env.MAGIC_LINK_ALLOWED_ROLES);
+	let disallowedRoles = toList(env.MAGIC_LINK_DISALLOWED_ROLES);
+	const allowedPolicies = toList(env.MAGIC_LINK_ALLOWED_POLICIES);
+	const disallowedPolicies = toList(env.MAGIC_LINK_DISALLOWED_POLICIES);
+
+	const checksPolicies = allowedPolicies.length > 0 || disallowedPolicies.length > 0;
+
+	// Policies only exist from Directus 11 on
+	let policiesSupported: Promise<boolean> | null = null;
+
+	function supportsPolicies(): Promise<boolean> {
+		if (!policiesSupported) {
+			policiesSupported = database.schema.hasTable('directus_policies').then((exists) => {
+				if (!exists) {
+					logger.warn('MAGIC_LINK_*_POLICIES is set, but this Directus version has no access policies');
+				}
+
+				return exists;
+			});
+		}
+
+		return policiesSupported;
+	}
+
+	async function getRole(roleId: string | null): Promise<NamedItem[]> {
+		if (!roleId) return [];
+
+		const role = await database.select('id', 'name').from('directus_roles').where({ id: roleId }).first();
+		return role ? [{ id: String(role.id), name: role.name }] : [{ id: roleId, name: '' }];
+	}
+
+	/**
+	 * IDs of the user's role and the roles it's nested in
+	 */
+	async function getRoleChain(roleId: string | null): Promise<string[]> {
+		const chain: string[] = [];
+		let current = roleId;
+
+		while (current && !chain.includes(current)) {
+			chain.push(current);
+
+			const role = await database.select('parent').from('directus_roles').where({ id: current }).first();
+			current = role?.parent ?? null;
+		}
+
+		return chain;
+	}
+
+	async function getPolicies(user: AccessUser): Promise<NamedItem[]> {
+		const roles = await getRoleChain(user.role);
+
+		const policies = await database
+			.distinct('p.id', 'p.name')
+			.from('directus_access as a')
+			.join('directus_policies as p', 'p.id', 'a.policy')
+			.where((query) => {
+				query.where('a.user', user.id);
+				if (roles.length > 0) query.orWhereIn('a.role', roles);
+			});
+
+		return policies.map((policy) => ({ id: String(policy.id), name: policy.name }));
+	}
+
+	/**
+	 * Check a user against the policy; returns the reason they're denied, or null
+	 *
+	 * Users without an ID are about to be registered, so only their role is checked.
+	 * `clientRoles` are the allowed roles of the client the link is for.
+	 */
+	async function check(user: AccessUser, clientRoles: string[] = []): Promise<AccessDenial | null> {
+		if (user.id && user.status !== 'active') return 'User not active';
+
+		if (allowedRoles.length > 0 || disallowedRoles.length > 0 || clientRoles.length > 0) {
+			const role = await getRole(user.role);
+
+			if (allowedRoles.length > 0 && !matchesAny(role, allowedRoles)) return 'User role not allowed';
+			if (disallowedRoles.length > 0 && matchesAny(role, disallowedRoles)) return 'User role disallowed';
+			if (clientRoles.length > 0 && !matchesAny(role, clientRoles)) return 'User role not allowed for client';
+		}
+
+		if (user.id && checksPolicies && (await supportsPolicies())) {
+			const policies = await getPolicies(user);
+
+			if (allowedPolicies.length > 0 && !matchesAny(policies, allowedPolicies)) return 'User policy not allowed';
+			if (disallowedPolicies.length > 0 && matchesAny(policies, disallowedPolicies)) return 'User policy disallowed';
+		}
+
+		return null;
+	}
+
+	/**
+	 * Replace the role lists, e.g. when the settings change
+	 */
+	function setRoles(allowed: string[], disallowed: string[]): void {
+		allowedRoles = allowed;
+		disallowedRoles = disallowed;
+	}
+
+	return { check, setRoles };
+}
@@ -0,0 +1,261 @@
+import type { Knex } from 'knex';
+import type { MessageKey, MessageParams } from '../shared/i18n';
+
+/**
+ * Queries behind the admin audit API
+ *
+ * Two kinds of records can be listed, counted and exported:
+ * - attempts:      one row per /generate request in extension_magic_link
+ * - verifications: one row per verification attempt in extension_magic_link_events
+ */
+
+export const ATTEMPT_OUTCOMES = ['pending', 'sent', 'send_failed', 'rate_limited', 'denied'] as const;
+export const VERIFICATION_OUTCOMES = ['success', 'failure'] as const;
+
+export type AuditRecordType = 'attempts' | 'verifications';
+
+// Columns exposed by the API - token, code and secret hashes never leave the database
+const COLUMNS: Record<AuditRecordType, string[]> = {
+	attempts: [
+		'id',
+		'email',
+		'ip_address',
+		'user_agent',
+		'outcome',
+		'email_sent',
+		'email_error',
+		'channel',
+		'registration',
+		'client',
+		'created_at',
+		'expires_at',
+		'used',
+		'used_at',
+		'used_ip',
+		'used_user_agent'
+	],
+	verifications: ['id', 'magic_link', 'email', 'method', 'outcome', 'reason', 'ip_address', 'user_agent', 'created_at']
+};
+
+const TABLES: Record<AuditRecordType, string> = {
+	attempts: 'extension_magic_link',
+	verifications: 'extension_magic_link_events'
+};
+
+export interface AuditFilters {
+	email?: string;
+	ip?: string;
+	outcomes?: string[];
+	from?: Date;
+	to?: Date;
+}
+
+export interface AuditPage {
+	limit: number;
+	page: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const EXPORT_BATCH_SIZE = 500;
+
+export function isAuditRecordType(value: unknown): value is AuditRecordType {
+	return value === 'attempts' || value === 'verifications';
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+	if (value === undefined || value === '') return undefined;
+
+	const date = new Date(String(value));
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read the filters from a query string: email, ip, outcome (comma separated), from, to
+ *
+ * Returns an error message, translated with `translate`, instead if a value is invalid.
+ */
+export function parseAuditFilters(
+	type: AuditRecordType,
+	query: Record<string, unknown>,
+	translate: (key: MessageKey, params?: MessageParams) => string
+): { filters: AuditFilters; error?: undefined } | { filters?: undefined; error: string } {
+	const allowedOutcomes: readonly string[] = type === 'attempts' ? ATTEMPT_OUTCOMES : VERIFICATION_OUTCOMES;
+
+	const outcomes = query.outcome
+		? String(query.outcome)
+				.split(',')
+				.map((outcome) => outcome.trim())
+				.filter(Boolean)
+		: undefined;
+
+	const invalidOutcome = outcomes?.find((outcome) => !allowedOutcomes.includes(outcome));
+
+	if (invalidOutcome) {
+		return { error: translate('api.invalid_outcome', { outcome: invalidOutcome, outcomes: allowedOutcomes.join(', ') }) };
+	}
+
+	const from = parseDate(query.from);
+	const to = parseDate(query.to);
+
+	if (from === null || to === null) {
+		return { error: translate('api.invalid_date') };
+	}
+
+	return {
+		filters: {
+			email: query.email ? String(query.email) : undefined,
+			ip: query.ip ? String(query.ip) : undefined,
+			outcomes,
+			from,
+			to
+		}
+	};
+}
+
+/**
+ * Read the page and page size (limit, at most 1000) from a query string
+ */
+export function parseAuditPage(query: Record<string, unknown>): AuditPage {
+	const limit = parseInt(String(query.limit ?? '')) || DEFAULT_LIMIT;
+	const page = parseInt(String(query.page ?? '')) || 1;
+
+	return { limit: Math.min(Math.max(limit, 1), MAX_LIMIT), page: Math.max(page, 1) };
+}
+
+function filteredQuery(database: Knex, type: AuditRecordType, filters: AuditFilters): Knex.QueryBuilder {
+	const query = database(TABLES[type]);
+
+	if (filters.email) query.whereRaw('LOWER(email) = ?', [filters.email.toLowerCase()]);
+	if (filters.ip) query.where('ip_address', filters.ip);
+	if (filters.outcomes?.length) query.whereIn('outcome', filters.outcomes);
+	if (filters.from) query.where('created_at', '>=', filters.from);
+	if (filters.to) query.where('created_at', '<=', filters.to);
+
+	return query;
+}
+
+/**
+ * One page of records, newest first, with the total number of matching records
+ */
+export async function listAuditRecords(
+	database: Knex,
+	type: AuditRecordType,
+	filters: AuditFilters,
+	{ limit, page }: AuditPage
+): Promise<{ data: Record<string, unknown>[]; total: number }> {
+	const [data, countRow] = await Promise.all([
+		filteredQuery(database, type, filters)
+			.select(COLUMNS[type])
+			.orderBy('id', 'desc')
+			.limit(limit)
+			.offset((page - 1) * limit),
+		filteredQuery(database, type, filters).count({ count: '*' }).first()
+	]);
+
+	return { data, total: Number(countRow?.count ?? 0) };
+}
+
+/**
+ * Number of matching records per outcome (outcomes without records are 0)
+ */
+export async function countAuditOutcomes(
+	database: Knex,
+	type: AuditRecordType,
+	filters: AuditFilters
+): Promise<Record<string, number>> {
+	const rows = await filteredQuery(database, type, filters)
+		.select('outcome')
+		.count({ count: '*' })
+		.groupBy('outcome');
+
+	const outcomes: readonly string[] = type === 'attempts' ? ATTEMPT_OUTCOMES : VERIFICATION_OUTCOMES;
+	const counts: Record<string, number> = Object.fromEntries(outcomes.map((outcome) => [outcome, 0]));
+
+	for (const row of rows) {
+		counts[String(row.outcome ?? 'unknown')] = Number(row.count);
+	}
+
+	return counts;
+}
+
+/**
+ * Daily counts per outcome of records removed by the retention job, oldest first
+ *
+ * Only the date range applies, since the counts don't keep emails or IPs.
+ */
+export async function listAuditHistory(
+	database: Knex,
+	type: AuditRecordType,
+	filters: AuditFilters
+): Promise<{ day: string; outcome: string; count: number }[]> {
+	const query = database('extension_magic_link_stats').select('day', 'outcome', 'count').where({ type });
+
+	if (filters.outcomes?.length) query.whereIn('outcome', filters.outcomes);
+	if (filters.from) query.where('day', '>=', filters.from.toISOString().substring(0, 10));
+	if (filters.to) query.where('day', '<=', filters.to.toISOString().substring(0, 10));
+
+	const rows = await query.orderBy('day', 'asc').orderBy('outcome', 'asc');
+
+	return rows.map((row) => ({ day: row.day, outcome: row.outcome, count: Number(row.count) }));
+}
+
+/**
+ * Read all matching records in batches, oldest first, without loading them all at once
+ */
+export async function* exportAuditRecords(
+	database: Knex,
+	type: AuditRecordType,
+	filters: AuditFilters
+): AsyncGenerator<Record<string, unknown>> {
+	let lastId = 0;
+
+	while (true) {
+		const batch: Record<string, unknown>[] = await filteredQuery(database, type, filters)
+			.select(COLUMNS[type])
+			.where('id', '>', lastId)
+			.orderBy('id', 'asc')
+			.limit(EXPORT_BATCH_SIZE);
+
+		yield* batch;
+
+		if (batch.length < EXPORT_BATCH_SIZE) return;
+		lastId = Number(batch[batch.length - 1]!.id);
+	}
+}
+
+export function getAuditColumns(type: AuditRecordType): string[] {
+	return COLUMNS[type];
+}
+
+function formatValue(value: unknown): unknown {
+	return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * One CSV line (RFC 4180) for the given columns
+ *
+ * Values starting with a formula character are prefixed with a quote, so a
+ * crafted user agent can't run a formula when the file is opened in a spreadsheet.
+ */
+export function toCsvLine(values: unknown[]): string {
+	return (
+		values
+			.map((value) => {
+				let text = String(formatValue(value) ?? '');
+
+				if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+				if (/[",\r\n]/.test(text)) text = `"${text.replace(/"/g, '""')}"`;
+
+				return text;
+			})
+			.join(',') + '\r\n'
+	);
+}
+
+/**
+ * One NDJSON line for a record
+ */
+export function toNdjsonLine(record: Record<string, unknown>): string {
+	return JSON.stringify(record) + '\n';
+}
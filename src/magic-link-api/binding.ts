@@ -0,0 +1,129 @@
+import type { Request, Response } from 'express';
+import { createCodeChallenge, generateToken } from '../shared/tokens';
+import type { DirectusRequest, Logger } from '../shared/types';
+import { toBoolean, toList } from '../shared/utils';
+import { getNetworkKey } from './rate-limit';
+
+/**
+ * Binding magic links to the browser that requested them (PKCE style)
+ *
+ * When a link is requested, the client holds a secret verifier and only a hash
+ * of its code challenge (base64url SHA-256 of the verifier) is stored with the
+ * link. The verifier is either kept by a SPA, which sends `code_challenge` to
+ * /generate and `code_verifier` to /verify, or - with MAGIC_LINK_BINDING
+ * enabled - generated by the API and kept in an httpOnly cookie.
+ *
+ * The IP address and user agent the link was requested with can be compared
+ * as well (MAGIC_LINK_BINDING_SIGNALS). Whatever doesn't match is handled by
+ * MAGIC_LINK_BINDING_MISMATCH: reject the link, require the one-time code too,
+ * or allow it and notify the user.
+ */
+
+export const BINDING_COOKIE = 'magic_link_verifier';
+
+export const BINDING_SIGNALS = ['ip', 'user_agent'] as const;
+export type BindingSignal = (typeof BINDING_SIGNALS)[number];
+export type BindingMismatch = 'verifier' | BindingSignal;
+export type BindingMismatchPolicy = 'reject' | 'otp' | 'notify';
+
+interface BoundRecord {
+	binding: string | null;
+	ip_address: string;
+	user_agent: string | null;
+}
+
+export function isCodeChallenge(value: unknown): value is string {
+	return typeof value === 'string' && /^[A-Za-z0-9_-]{43}$/.test(value);
+}
+
+export function createBrowserBinding(
+	env: Record<string, any>,
+	logger: Logger,
+	options: {
+		hash: (value: string) => string;
+		matches: (value: string, storedHash: unknown) => boolean;
+		ipv4Prefix: number;
+		ipv6Prefix: number;
+	}
+) {
+	const enabled = toBoolean(env.MAGIC_LINK_BINDING) ?? false;
+
+	const policy: BindingMismatchPolicy = ['otp', 'notify'].includes(env.MAGIC_LINK_BINDING_MISMATCH)
+		? env.MAGIC_LINK_BINDING_MISMATCH
+		: 'reject';
+
+	const signals = toList(env.MAGIC_LINK_BINDING_SIGNALS).filter((signal): signal is BindingSignal => {
+		if ((BINDING_SIGNALS as readonly string[]).includes(signal)) return true;
+
+		logger.warn(`Ignoring unknown MAGIC_LINK_BINDING_SIGNALS entry "${signal}"`);
+		return false;
+	});
+
+	function hashChallenge(challenge: string): string {
+		return options.hash(`binding:${challenge}`);
+	}
+
+	/**
+	 * Bind a new link to the requesting client
+	 *
+	 * Uses the client's `code_challenge` if it sent one, otherwise - when binding is
+	 * enabled - sets a verifier cookie that lasts as long as the link. Returns the
+	 * hash to store with the link.
+	 */
+	function bind(req: Request, res: Response, expirationMinutes: number, challenge?: string): string | null {
+		if (isCodeChallenge(challenge)) return hashChallenge(challenge);
+		if (!enabled) return null;
+
+		const verifier = generateToken();
+
+		res.cookie(BINDING_COOKIE, verifier, {
+			httpOnly: true,
+			secure: req.secure || String(env.PUBLIC_URL ?? '').startsWith('https://'),
+			sameSite: 'lax',
+			maxAge: expirationMinutes * 60 * 1000,
+			path: '/'
+		});
+
+		return hashChallenge(createCodeChallenge(verifier));
+	}
+
+	/**
+	 * The ways the verifying client differs from the one that requested the link
+	 *
+	 * `codeVerifier` is the verifier the client sent; without one, the binding
+	 * cookie is checked.
+	 */
+	function check(
+		record: BoundRecord,
+		req: DirectusRequest,
+		ip: string,
+		userAgent: string,
+		codeVerifier?: string
+	): BindingMismatch[] {
+		const mismatches: BindingMismatch[] = [];
+
+		if (record.binding) {
+			const verifier = codeVerifier || req.cookies?.[BINDING_COOKIE];
+
+			if (typeof verifier !== 'string' || !options.matches(`binding:${createCodeChallenge(verifier)}`, record.binding)) {
+				mismatches.push('verifier');
+			}
+		}
+
+		if (
+			signals.includes('ip') &&
+			getNetworkKey(ip, options.ipv4Prefix, options.ipv6Prefix) !==
+				getNetworkKey(record.ip_address, options.ipv4Prefix, options.ipv6Prefix)
+		) {
+			mismatches.push('ip');
+		}
+
+		if (signals.includes('user_agent') && userAgent !== record.user_agent) {
+			mismatches.push('user_agent');
+		}
+
+		return mismatches;
+	}
+
+	return { bind, check, policy };
+}
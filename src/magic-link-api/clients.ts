@@ -0,0 +1,112 @@
+import type { Knex } from 'knex';
+import { CLIENTS_TABLE } from '../shared/migrations';
+import { createRedirectAllowlist } from '../shared/redirects';
+import type { Logger } from '../shared/types';
+
+/**
+ * Registry of the applications that request magic links
+ *
+ * Each row of CLIENTS_TABLE describes one frontend: the redirect URLs its links
+ * may point to, the email it gets (template, subject, sender), how long its
+ * links last, which roles may use it and where a browser lands after signing in.
+ * Empty fields fall back to the MAGIC_LINK_* environment variables.
+ *
+ * Clients are read from the database and cached briefly, so edits in the Data
+ * Studio apply within CACHE_TTL_MS without a restart.
+ */
+
+export interface MagicLinkClient {
+	id: string;
+	name: string | null;
+	redirectAllowlist: ReturnType<typeof createRedirectAllowlist> | null;
+	emailTemplate: string | null;
+	emailSubject: string | null;
+	emailFrom: string | null;
+	expirationMinutes: number | null;
+	allowedRoles: string[];
+	postLoginUrl: string | null;
+}
+
+interface ClientRecord {
+	id: string;
+	name: string | null;
+	enabled: boolean | number | null;
+	redirect_urls: unknown;
+	email_template: string | null;
+	email_subject: string | null;
+	email_from: string | null;
+	expiration_minutes: number | null;
+	allowed_roles: unknown;
+	post_login_url: string | null;
+}
+
+const CACHE_TTL_MS = 30 * 1000;
+const MAX_CACHED_CLIENTS = 1000;
+
+/**
+ * Read a list field: a JSON array (e.g. from a tags interface), or values
+ * separated by commas or line breaks
+ */
+function parseList(value: unknown): string[] {
+	if (typeof value === 'string' && value.trim().startsWith('[')) {
+		try {
+			return parseList(JSON.parse(value));
+		} catch {
+			// Not JSON after all, split it below
+		}
+	}
+
+	const items = Array.isArray(value) ? value : String(value ?? '').split(/[,\n]/);
+
+	return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+export function isClientId(value: unknown): value is string {
+	return typeof value === 'string' && /^[A-Za-z0-9_.-]{1,64}$/.test(value);
+}
+
+export function createClientRegistry(database: Knex, logger: Logger) {
+	const cache = new Map<string, { client: MagicLinkClient | null; expires: number }>();
+
+	function toClient(record: ClientRecord): MagicLinkClient {
+		const redirectUrls = parseList(record.redirect_urls);
+		const redirectAllowlist = redirectUrls.length > 0 ? createRedirectAllowlist(redirectUrls) : null;
+
+		if (redirectAllowlist && redirectAllowlist.invalid.length > 0) {
+			logger.warn(`Ignoring invalid redirect URLs of magic link client "${record.id}": ${redirectAllowlist.invalid.join(', ')}`);
+		}
+
+		const expirationMinutes = Number(record.expiration_minutes);
+
+		return {
+			id: record.id,
+			name: record.name || null,
+			redirectAllowlist,
+			emailTemplate: record.email_template || null,
+			emailSubject: record.email_subject || null,
+			emailFrom: record.email_from || null,
+			expirationMinutes: expirationMinutes > 0 ? expirationMinutes : null,
+			allowedRoles: parseList(record.allowed_roles),
+			postLoginUrl: record.post_login_url || null
+		};
+	}
+
+	/**
+	 * Look up an enabled client by ID; null if there's no such client
+	 */
+	async function find(id: string): Promise<MagicLinkClient | null> {
+		const cached = cache.get(id);
+		if (cached && cached.expires > Date.now()) return cached.client;
+
+		const record: ClientRecord | undefined = await database(CLIENTS_TABLE).select('*').where({ id }).first();
+		const client = record && record.enabled !== false && record.enabled !== 0 ? toClient(record) : null;
+
+		// Unknown IDs are cached too, so keep the cache from growing without bounds
+		if (cache.size >= MAX_CACHED_CLIENTS) cache.clear();
+		cache.set(id, { client, expires: Date.now() + CACHE_TTL_MS });
+
+		return client;
+	}
+
+	return { find };
+}
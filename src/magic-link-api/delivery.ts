@@ -0,0 +1,342 @@
+import crypto from 'crypto';
+import type { Knex } from 'knex';
+import type { Logger } from '../shared/types';
+import { toList } from '../shared/utils';
+import type { EmailTemplateData, NoticeTemplateData, RenderedEmail } from './email-templates';
+import { createOutbox, isOutboxAllowed, type Outbox } from './outbox';
+
+/**
+ * Delivery channels for magic links
+ *
+ * - email:   through Directus' mail service (the default)
+ * - webhook: POSTs the link as JSON to MAGIC_LINK_WEBHOOK_URL, signed with an
+ *            HMAC-SHA256 of `<timestamp>.<body>` keyed with MAGIC_LINK_WEBHOOK_SECRET,
+ *            e.g. for a Slack or Teams bot
+ * - sms:     sends the short message to the user's phone number through the HTTP
+ *            gateway at MAGIC_LINK_SMS_GATEWAY_URL
+ * - outbox:  sends nothing, but keeps the messages for /magic-link-api/outbox; for
+ *            local development and tests only (see outbox.ts)
+ *
+ * MAGIC_LINK_DELIVERY picks the channel for everyone. With MAGIC_LINK_CHANNEL_FIELD,
+ * users choose their own in that field of directus_users. A channel that isn't
+ * configured, or can't reach the user (SMS without a phone number), falls back to
+ * the default, and from there to email. The outbox replaces all other channels.
+ *
+ * The security notice of a link used in another browser (see binding.ts) goes
+ * through the same channel as the user's links.
+ */
+
+export const CHANNELS = ['email', 'webhook', 'sms', 'outbox'] as const;
+export type Channel = (typeof CHANNELS)[number];
+
+export interface Recipient {
+	channel: Channel;
+	email: string;
+	user: string | null;
+	phone: string | null;
+}
+
+export interface MagicLinkMessage {
+	data: EmailTemplateData;
+	template: string;
+	subject: string;
+	locale: string;
+	// Sender address of emails
+	from: string;
+}
+
+export interface NoticeMessage {
+	data: NoticeTemplateData;
+	template: string;
+	locale: string;
+	from: string;
+}
+
+interface DeliveryOptions {
+	database: Knex;
+	env: Record<string, any>;
+	logger: Logger;
+	sendEmail: (to: string, message: RenderedEmail, from?: string) => Promise<unknown>;
+	renderer: {
+		render(data: EmailTemplateData, templateName: string, subject: string, locale: string): Promise<RenderedEmail>;
+		renderShortMessage(data: EmailTemplateData, templateName: string, locale: string): Promise<string>;
+		renderNotice(data: NoticeTemplateData, templateName: string, locale: string): Promise<RenderedEmail>;
+		renderShortNotice(data: NoticeTemplateData, templateName: string, locale: string): Promise<string>;
+	};
+}
+
+// Webhooks and SMS gateways that don't answer in time count as failed
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Field names come from configuration and end up in a query
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isChannel(value: unknown): value is Channel {
+	return typeof value === 'string' && (CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * Read the SMS gateway's parameter names: `to=To,text=Body,from=From`
+ */
+function parseGatewayFields(value: unknown): Record<'to' | 'text' | 'from', string> {
+	const fields = { to: 'to', text: 'text', from: 'from' };
+
+	for (const entry of toList(value)) {
+		const [name, field] = entry.split('=').map((part) => part.trim());
+		if (field && (name === 'to' || name === 'text' || name === 'from')) fields[name] = field;
+	}
+
+	return fields;
+}
+
+/**
+ * POST a request, failing on timeouts and non-2xx responses
+ */
+async function post(url: string, headers: Record<string, string>, body: string): Promise<void> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers,
+		body,
+		signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+	});
+
+	if (!response.ok) throw new Error(`${new URL(url).host} responded with ${response.status}`);
+}
+
+export function createDeliveryChannels({ database, env, logger, sendEmail, renderer }: DeliveryOptions) {
+	const webhook = {
+		url: env.MAGIC_LINK_WEBHOOK_URL as string | undefined,
+		secret: env.MAGIC_LINK_WEBHOOK_SECRET as string | undefined
+	};
+
+	const sms = {
+		url: env.MAGIC_LINK_SMS_GATEWAY_URL as string | undefined,
+		// Sent as the Authorization header, e.g. `Bearer ...` or `Basic ...`
+		authorization: env.MAGIC_LINK_SMS_GATEWAY_AUTH as string | undefined,
+		format: env.MAGIC_LINK_SMS_GATEWAY_FORMAT === 'form' ? 'form' : 'json',
+		fields: parseGatewayFields(env.MAGIC_LINK_SMS_GATEWAY_FIELDS),
+		from: env.MAGIC_LINK_SMS_FROM as string | undefined,
+		phoneField: env.MAGIC_LINK_SMS_PHONE_FIELD || 'phone'
+	};
+
+	const channelField = env.MAGIC_LINK_CHANNEL_FIELD as string | undefined;
+
+	if (webhook.url && !webhook.secret) {
+		logger.warn('MAGIC_LINK_WEBHOOK_URL is set without MAGIC_LINK_WEBHOOK_SECRET: the webhook channel is disabled');
+	}
+
+	for (const [name, field] of [['MAGIC_LINK_CHANNEL_FIELD', channelField], ['MAGIC_LINK_SMS_PHONE_FIELD', sms.phoneField]]) {
+		if (field && !FIELD_PATTERN.test(field)) logger.warn(`Ignoring invalid ${name} "${field}"`);
+	}
+
+	// Holds working links, so it's never used in production
+	const outbox: Outbox | null = env.MAGIC_LINK_DELIVERY === 'outbox' && isOutboxAllowed() ? createOutbox() : null;
+
+	const available = new Set<Channel>([
+		'email',
+		...(webhook.url && webhook.secret ? (['webhook'] as const) : []),
+		...(sms.url ? (['sms'] as const) : []),
+		...(outbox ? (['outbox'] as const) : [])
+	]);
+
+	let defaultChannel: Channel = 'email';
+
+	if (env.MAGIC_LINK_DELIVERY === 'outbox' && !outbox) {
+		logger.error('MAGIC_LINK_DELIVERY=outbox is not allowed with NODE_ENV=production, using email');
+	} else if (env.MAGIC_LINK_DELIVERY) {
+		if (isChannel(env.MAGIC_LINK_DELIVERY) && available.has(env.MAGIC_LINK_DELIVERY)) {
+			defaultChannel = env.MAGIC_LINK_DELIVERY;
+		} else {
+			logger.warn(`MAGIC_LINK_DELIVERY "${env.MAGIC_LINK_DELIVERY}" is unknown or not configured, using email`);
+		}
+	}
+
+	if (outbox) logger.warn('Magic links are kept in the outbox instead of being sent (MAGIC_LINK_DELIVERY=outbox)');
+
+	// The fields of directus_users that are read for each user
+	const userFields = [
+		...(channelField && FIELD_PATTERN.test(channelField) ? [channelField] : []),
+		...(available.has('sms') && FIELD_PATTERN.test(sms.phoneField) ? [sms.phoneField] : [])
+	];
+
+	/**
+	 * Read a user's preferred channel and phone number
+	 *
+	 * The fields are optional: if they can't be read (e.g. they don't exist), the
+	 * user gets the default channel.
+	 */
+	async function readPreferences(userId: string | null): Promise<{ channel: unknown; phone: unknown }> {
+		if (!userId || userFields.length === 0) return { channel: null, phone: null };
+
+		try {
+			const row = await database('directus_users').select(userFields).where({ id: userId }).first();
+
+			return { channel: channelField ? row?.[channelField] : null, phone: row?.[sms.phoneField] };
+		} catch (error) {
+			logger.error(`Error reading the delivery preferences of user ${userId}: ${(error as Error).message}`);
+			return { channel: null, phone: null };
+		}
+	}
+
+	/**
+	 * Pick the channel for a user: their preferred one if it can reach them, else the default
+	 */
+	async function pick(user: { id: string | null; email: string }): Promise<Recipient> {
+		if (outbox) return { channel: 'outbox', email: user.email, user: user.id, phone: null };
+
+		const preferences = await readPreferences(user.id);
+
+		const phone = typeof preferences.phone === 'string' && preferences.phone.trim() ? preferences.phone.trim() : null;
+		const preferred = typeof preferences.channel === 'string' ? preferences.channel.trim().toLowerCase() : '';
+
+		const reachable = (channel: Channel) => available.has(channel) && (channel !== 'sms' || Boolean(phone));
+
+		const channel = [preferred, defaultChannel].find(
+			(candidate): candidate is Channel => isChannel(candidate) && reachable(candidate)
+		);
+
+		return { channel: channel ?? 'email', email: user.email, user: user.id, phone };
+	}
+
+	async function postWebhook(body: string): Promise<void> {
+		// The receiver checks the signature, and rejects old timestamps to stop replays
+		const timestamp = String(Math.floor(Date.now() / 1000));
+		const signature = crypto.createHmac('sha256', webhook.secret!).update(`${timestamp}.${body}`).digest('hex');
+
+		await post(
+			webhook.url!,
+			{
+				'Content-Type': 'application/json',
+				'X-Magic-Link-Timestamp': timestamp,
+				'X-Magic-Link-Signature': `sha256=${signature}`
+			},
+			body
+		);
+	}
+
+	async function sendWebhook(recipient: Recipient, message: MagicLinkMessage): Promise<void> {
+		const { data } = message;
+		const text = await renderer.renderShortMessage(data, message.template, message.locale);
+
+		await postWebhook(
+			JSON.stringify({
+				event: 'magic-link',
+				email: recipient.email,
+				user: recipient.user,
+				link: data.link,
+				code: data.code,
+				registration: data.registration,
+				expires_at: data.expires_at,
+				locale: message.locale,
+				site_name: data.site_name,
+				text
+			})
+		);
+	}
+
+	async function postSms(recipient: Recipient, text: string): Promise<void> {
+		const params: Record<string, string> = {
+			[sms.fields.to]: recipient.phone!,
+			[sms.fields.text]: text,
+			...(sms.from && { [sms.fields.from]: sms.from })
+		};
+
+		await post(
+			sms.url!,
+			{
+				'Content-Type': sms.format === 'form' ? 'application/x-www-form-urlencoded' : 'application/json',
+				...(sms.authorization && { Authorization: sms.authorization })
+			},
+			sms.format === 'form' ? new URLSearchParams(params).toString() : JSON.stringify(params)
+		);
+	}
+
+	async function sendToOutbox(recipient: Recipient, message: MagicLinkMessage): Promise<void> {
+		const { data } = message;
+		const email = await renderer.render(data, message.template, message.subject, message.locale);
+
+		outbox!.add({
+			event: 'magic-link',
+			to: recipient.email,
+			user: recipient.user,
+			subject: email.subject,
+			link: data.link,
+			code: data.code,
+			registration: data.registration,
+			expires_at: data.expires_at,
+			locale: message.locale,
+			html: email.html,
+			text: email.text,
+			short: await renderer.renderShortMessage(data, message.template, message.locale)
+		});
+	}
+
+	/**
+	 * Deliver a magic link through the recipient's channel; throws if it fails
+	 */
+	async function send(recipient: Recipient, message: MagicLinkMessage): Promise<void> {
+		switch (recipient.channel) {
+			case 'webhook':
+				return sendWebhook(recipient, message);
+			case 'sms':
+				return postSms(recipient, await renderer.renderShortMessage(message.data, message.template, message.locale));
+			case 'outbox':
+				return sendToOutbox(recipient, message);
+			default: {
+				const email = await renderer.render(message.data, message.template, message.subject, message.locale);
+				await sendEmail(recipient.email, email, message.from);
+			}
+		}
+	}
+
+	/**
+	 * Deliver a security notice through the recipient's channel; throws if it fails
+	 */
+	async function sendNotice(recipient: Recipient, notice: NoticeMessage): Promise<void> {
+		const { data } = notice;
+
+		switch (recipient.channel) {
+			case 'webhook':
+				return postWebhook(
+					JSON.stringify({
+						event: 'sign-in-notice',
+						email: recipient.email,
+						user: recipient.user,
+						ip_address: data.ip_address,
+						user_agent: data.user_agent,
+						signed_in_at: data.signed_in_at,
+						locale: notice.locale,
+						site_name: data.site_name,
+						text: await renderer.renderShortNotice(data, notice.template, notice.locale)
+					})
+				);
+			case 'sms':
+				return postSms(recipient, await renderer.renderShortNotice(data, notice.template, notice.locale));
+			case 'outbox': {
+				const email = await renderer.renderNotice(data, notice.template, notice.locale);
+
+				outbox!.add({
+					event: 'sign-in-notice',
+					to: recipient.email,
+					user: recipient.user,
+					subject: email.subject,
+					link: null,
+					code: null,
+					registration: false,
+					expires_at: null,
+					locale: notice.locale,
+					html: email.html,
+					text: email.text,
+					short: await renderer.renderShortNotice(data, notice.template, notice.locale)
+				});
+				return;
+			}
+			default: {
+				const email = await renderer.renderNotice(data, notice.template, notice.locale);
+				await sendEmail(recipient.email, email, notice.from);
+			}
+		}
+	}
+
+	return { pick, send, sendNotice, defaultChannel, available, outbox };
+}
@@ -0,0 +1,72 @@
+/**
+ * Built-in list of disposable (throwaway) email domains
+ *
+ * Used when MAGIC_LINK_BLOCK_DISPOSABLE_DOMAINS is enabled. Subdomains of these
+ * domains are blocked too. Add your own entries with
+ * MAGIC_LINK_DISPOSABLE_DOMAINS_FILE rather than editing this list.
+ */
+export const DISPOSABLE_DOMAINS = [
+	'0-mail.com',
+	'10minutemail.com',
+	'10minutemail.net',
+	'20minutemail.com',
+	'33mail.com',
+	'anonbox.net',
+	'burnermail.io',
+	'discard.email',
+	'discardmail.com',
+	'dispostable.com',
+	'dropmail.me',
+	'emailondeck.com',
+	'fakeinbox.com',
+	'fakemail.net',
+	'getairmail.com',
+	'getnada.com',
+	'guerrillamail.biz',
+	'guerrillamail.com',
+	'guerrillamail.de',
+	'guerrillamail.info',
+	'guerrillamail.net',
+	'guerrillamail.org',
+	'guerrillamailblock.com',
+	'harakirimail.com',
+	'inboxbear.com',
+	'incognitomail.org',
+	'jetable.org',
+	'mail-temp.com',
+	'mailcatch.com',
+	'maildrop.cc',
+	'mailinator.com',
+	'mailinator.net',
+	'mailinator2.com',
+	'mailnesia.com',
+	'mailnull.com',
+	'mailsac.com',
+	'mintemail.com',
+	'moakt.com',
+	'mohmal.com',
+	'mvrht.com',
+	'mytemp.email',
+	'nada.email',
+	'sharklasers.com',
+	'spam4.me',
+	'spambox.us',
+	'spamgourmet.com',
+	'spamex.com',
+	'tempail.com',
+	'tempinbox.com',
+	'tempmail.com',
+	'tempmail.net',
+	'tempmail.plus',
+	'tempmailo.com',
+	'temp-mail.io',
+	'temp-mail.org',
+	'tempr.email',
+	'throwawaymail.com',
+	'trashmail.com',
+	'trashmail.de',
+	'trashmail.net',
+	'yopmail.com',
+	'yopmail.fr',
+	'yopmail.net'
+];
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import { createDomainMatcher } from '../shared/domains';
+import type { Logger } from '../shared/types';
+import { toBoolean, toList } from '../shared/utils';
+import { DISPOSABLE_DOMAINS } from './disposable-domains';
+
+/**
+ * Email domain policy for magic link requests
+ *
+ * Blocked domains (including disposable ones) always win. If an allowlist is
+ * configured, only its domains may request links. The reasons returned are
+ * stored in extension_magic_link.email_error for auditing.
+ */
+
+export type DomainDenial = 'Email domain blocked' | 'Disposable email domain' | 'Email domain not allowed';
+
+/**
+ * Read a local list of domains: one per line, `#` starts a comment
+ */
+function readDomainFile(file: string, logger: Logger): string[] {
+	try {
+		return fs
+			.readFileSync(file, 'utf8')
+			.split(/\r?\n/)
+			.map((line) => line.replace(/#.*$/, '').trim())
+			.filter(Boolean);
+	} catch (error) {
+		logger.error(`Could not read disposable domains file ${file}: ${(error as Error).message}`);
+		return [];
+	}
+}
+
+export function createDomainPolicy(env: Record<string, any>, logger: Logger) {
+	const allowed = createDomainMatcher(toList(env.MAGIC_LINK_ALLOWED_DOMAINS));
+	const blocked = createDomainMatcher(toList(env.MAGIC_LINK_BLOCKED_DOMAINS));
+
+	const blockDisposable = toBoolean(env.MAGIC_LINK_BLOCK_DISPOSABLE_DOMAINS) ?? false;
+
+	const disposableDomains = [
+		...DISPOSABLE_DOMAINS,
+		...(env.MAGIC_LINK_DISPOSABLE_DOMAINS_FILE ? readDomainFile(env.MAGIC_LINK_DISPOSABLE_DOMAINS_FILE, logger) : [])
+	];
+
+	// Disposable services often hand out subdomains as well
+	const disposable = createDomainMatcher(disposableDomains.flatMap((domain) => [domain, `*.${domain}`]));
+
+	/**
+	 * Check an email address against the policy; returns the reason it's denied, or null
+	 */
+	function check(email: string): DomainDenial | null {
+		if (blocked.matches(email)) return 'Email domain blocked';
+		if (blockDisposable && disposable.matches(email)) return 'Disposable email domain';
+		if (!allowed.isEmpty && !allowed.matches(email)) return 'Email domain not allowed';
+
+		return null;
+	}
+
+	return { check };
+}
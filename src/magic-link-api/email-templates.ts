@@ -0,0 +1,332 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Liquid } from 'liquidjs';
+import type { Translator } from '../shared/i18n';
+
+/**
+ * Email templates for magic link messages
+ *
+ * Templates are rendered with Liquid, the same engine Directus uses for its own
+ * emails. A template named `magic-link` is looked up in EMAIL_TEMPLATES_PATH as
+ * `magic-link.liquid` (HTML part) and `magic-link.txt.liquid` (plain text part).
+ * Whatever isn't found there falls back to the bundled default below. A
+ * localized variant (`magic-link.de-DE.liquid`) wins over the plain template
+ * when the email goes out in that locale.
+ *
+ * Available variables:
+ * - first_name, last_name, name, email
+ * - link, code (one-time code, empty unless enabled), expiration_minutes, expires_at
+ * - registration (true when the link creates a new account)
+ * - ip_address, user_agent
+ * - site_name, site_url
+ * - locale, messages (the translated texts of the default template, e.g.
+ *   `{{ messages.greeting }}`)
+ *
+ * The security notice sent when a link is used in another browser than the one
+ * that requested it (`<template>-notice.liquid` / `<template>-notice.txt.liquid`)
+ * gets name, email, ip_address, user_agent, signed_in_at, site_name, site_url,
+ * locale and messages. Its short message for SMS and webhooks is
+ * `<template>-notice.short.liquid`.
+ *
+ * Links delivered by SMS or webhook (see delivery.ts) use the short message
+ * `<template>.short.liquid`, which gets the same variables as the email.
+ */
+
+export interface EmailTemplateData {
+	first_name: string | null;
+	last_name: string | null;
+	name: string;
+	email: string;
+	link: string;
+	code: string | null;
+	registration: boolean;
+	expiration_minutes: number;
+	expires_at: string;
+	ip_address: string;
+	user_agent: string;
+	site_name: string;
+	site_url: string;
+}
+
+export interface NoticeTemplateData {
+	name: string;
+	email: string;
+	ip_address: string;
+	user_agent: string;
+	signed_in_at: string;
+	site_name: string;
+	site_url: string;
+}
+
+export interface RenderedEmail {
+	subject: string;
+	html: string;
+	text: string;
+}
+
+const DEFAULT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{ locale }}">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>{{ site_name }}</title>
+</head>
+<body style="margin: 0; padding: 0; background: #f4f5f7; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+	<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background: #f4f5f7; padding: 40px 20px;">
+		<tr>
+			<td align="center">
+				<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width: 480px; background: #ffffff; border-radius: 10px; padding: 40px;">
+					<tr>
+						<td>
+							<h1 style="margin: 0 0 20px; font-size: 22px; color: #1a202c;">{% if registration %}{{ messages.signup_title }}{% else %}{{ messages.login_title }}{% endif %}</h1>
+							<p style="margin: 0 0 20px; font-size: 15px; line-height: 1.5; color: #4a5568;">
+								{{ messages.greeting }}<br>
+								{% if registration %}{{ messages.signup_intro }}{% else %}{{ messages.login_intro }}{% endif %}
+							</p>
+							<p style="margin: 0 0 30px; text-align: center;">
+								<a href="{{ link }}" style="display: inline-block; padding: 12px 24px; background: #667eea; color: #ffffff; text-decoration: none; border-radius: 5px; font-weight: 600;">{{ messages.button }}</a>
+							</p>
+							{% if code %}
+							<p style="margin: 0 0 20px; font-size: 15px; line-height: 1.5; color: #4a5568; text-align: center;">
+								{{ messages.code_intro }}<br>
+								<strong style="display: inline-block; margin-top: 10px; font-size: 28px; letter-spacing: 6px; color: #1a202c;">{{ code }}</strong>
+							</p>
+							{% endif %}
+							<p style="margin: 0 0 20px; font-size: 13px; line-height: 1.5; color: #718096;">
+								{{ messages.copy_link }}<br>
+								<a href="{{ link }}" style="color: #667eea; word-break: break-all;">{{ link }}</a>
+							</p>
+							<p style="margin: 0; font-size: 12px; line-height: 1.5; color: #a0aec0;">
+								{{ messages.requested_from }}
+								{{ messages.ignore }}
+							</p>
+						</td>
+					</tr>
+				</table>
+			</td>
+		</tr>
+	</table>
+</body>
+</html>
+`;
+
+const DEFAULT_TEXT_TEMPLATE = `{% if registration %}{{ messages.signup_title }}{% else %}{{ messages.login_title }}{% endif %}
+
+{{ messages.greeting }}
+
+{% if registration %}{{ messages.signup_intro }}{% else %}{{ messages.login_intro }}{% endif %}
+
+{{ link }}
+{% if code %}
+{{ messages.code_intro }} {{ code }}
+{% endif %}
+{{ messages.requested_from }}
+{{ messages.ignore }}
+
+{{ messages.regards }}
+{{ site_name }}
+`;
+
+const DEFAULT_NOTICE_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{ locale }}">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>{{ site_name }}</title>
+</head>
+<body style="margin: 0; padding: 0; background: #f4f5f7; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+	<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background: #f4f5f7; padding: 40px 20px;">
+		<tr>
+			<td align="center">
+				<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width: 480px; background: #ffffff; border-radius: 10px; padding: 40px;">
+					<tr>
+						<td>
+							<h1 style="margin: 0 0 20px; font-size: 22px; color: #1a202c;">{{ messages.title }}</h1>
+							<p style="margin: 0 0 20px; font-size: 15px; line-height: 1.5; color: #4a5568;">
+								{{ messages.greeting }}<br>
+								{{ messages.intro }}
+							</p>
+							<p style="margin: 0 0 20px; font-size: 13px; line-height: 1.5; color: #718096;">
+								{{ messages.time }}<br>
+								{{ messages.ip_address }}<br>
+								{{ messages.browser }}
+							</p>
+							<p style="margin: 0; font-size: 13px; line-height: 1.5; color: #4a5568;">
+								{{ messages.outro }}
+							</p>
+						</td>
+					</tr>
+				</table>
+			</td>
+		</tr>
+	</table>
+</body>
+</html>
+`;
+
+const DEFAULT_NOTICE_TEXT_TEMPLATE = `{{ messages.title }}
+
+{{ messages.greeting }}
+
+{{ messages.intro }}
+
+{{ messages.time }}
+{{ messages.ip_address }}
+{{ messages.browser }}
+
+{{ messages.outro }}
+
+{{ site_name }}
+`;
+
+const DEFAULT_SHORT_TEMPLATE = `{{ messages.link }}{% if code %} {{ messages.code }}{% endif %}`;
+
+const DEFAULT_NOTICE_SHORT_TEMPLATE = `{{ messages.short }}`;
+
+/**
+ * Sample values used by the preview route
+ */
+export const SAMPLE_TEMPLATE_DATA: EmailTemplateData = {
+	first_name: 'Jane',
+	last_name: 'Doe',
+	name: 'Jane Doe',
+	email: 'jane.doe@example.com',
+	link: 'https://example.com/magic-link-api/verify?token=0123456789abcdef',
+	code: '123456',
+	registration: false,
+	expiration_minutes: 15,
+	expires_at: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+	ip_address: '203.0.113.42',
+	user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Safari/605.1.15',
+	site_name: 'Directus',
+	site_url: 'https://example.com'
+};
+
+export function createEmailRenderer(options: {
+	templatesPath?: string;
+	templateName: string;
+	subject: string;
+	translator: Translator;
+}) {
+	const { translator } = options;
+
+	// HTML output escapes nothing by default in Liquid, so escape values explicitly
+	// for the HTML part and keep the text part raw
+	const htmlEngine = new Liquid({ outputEscape: 'escape' });
+	const textEngine = new Liquid();
+
+	/**
+	 * Read a template from EMAIL_TEMPLATES_PATH, or return null if there is none
+	 */
+	async function readCustomTemplate(fileName: string): Promise<string | null> {
+		if (!options.templatesPath) return null;
+
+		// Template names come from configuration (or the admin-only preview route),
+		// but never let them escape the templates directory
+		const root = path.resolve(options.templatesPath);
+		const file = path.resolve(root, fileName);
+		if (!file.startsWith(root + path.sep)) return null;
+
+		try {
+			return await fs.readFile(file, 'utf8');
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Read `<name>.<locale><suffix>`, falling back to `<name><suffix>`
+	 */
+	async function readLocalizedTemplate(name: string, suffix: string, locale: string): Promise<string | null> {
+		return (await readCustomTemplate(`${name}.${locale}${suffix}`)) ?? readCustomTemplate(`${name}${suffix}`);
+	}
+
+	/**
+	 * Render the magic link email
+	 *
+	 * An empty subject template uses the translated default subject.
+	 */
+	async function render(
+		data: EmailTemplateData,
+		templateName = options.templateName,
+		subjectTemplate = options.subject,
+		locale = translator.defaultLocale
+	): Promise<RenderedEmail> {
+		const [htmlTemplate, textTemplate] = await Promise.all([
+			readLocalizedTemplate(templateName, '.liquid', locale),
+			readLocalizedTemplate(templateName, '.txt.liquid', locale)
+		]);
+
+		const messages = translator.messages(locale, 'email', data as unknown as Record<string, unknown>);
+		const context = { ...data, locale, messages };
+
+		const [subject, html, text] = await Promise.all([
+			subjectTemplate ? textEngine.parseAndRender(subjectTemplate, context) : messages.subject!,
+			htmlEngine.parseAndRender(htmlTemplate ?? DEFAULT_HTML_TEMPLATE, context),
+			textEngine.parseAndRender(textTemplate ?? DEFAULT_TEXT_TEMPLATE, context)
+		]);
+
+		return { subject: subject.trim(), html, text };
+	}
+
+	/**
+	 * Render the security notice for a link used in another browser
+	 */
+	async function renderNotice(
+		data: NoticeTemplateData,
+		templateName = options.templateName,
+		locale = translator.defaultLocale
+	): Promise<RenderedEmail> {
+		const [htmlTemplate, textTemplate] = await Promise.all([
+			readLocalizedTemplate(`${templateName}-notice`, '.liquid', locale),
+			readLocalizedTemplate(`${templateName}-notice`, '.txt.liquid', locale)
+		]);
+
+		const messages: Record<string, string> = {
+			...translator.messages(locale, 'notice', data as unknown as Record<string, unknown>),
+			greeting: translator.translate(locale, 'email.greeting', { name: data.name })
+		};
+		const context = { ...data, locale, messages };
+
+		const [html, text] = await Promise.all([
+			htmlEngine.parseAndRender(htmlTemplate ?? DEFAULT_NOTICE_HTML_TEMPLATE, context),
+			textEngine.parseAndRender(textTemplate ?? DEFAULT_NOTICE_TEXT_TEMPLATE, context)
+		]);
+
+		return { subject: messages.subject!, html, text };
+	}
+
+	/**
+	 * Render the short plain text message with the link, for SMS and webhooks
+	 */
+	async function renderShortMessage(
+		data: EmailTemplateData,
+		templateName = options.templateName,
+		locale = translator.defaultLocale
+	): Promise<string> {
+		const template = await readLocalizedTemplate(templateName, '.short.liquid', locale);
+
+		const messages = translator.messages(locale, 'short', data as unknown as Record<string, unknown>);
+		const text = await textEngine.parseAndRender(template ?? DEFAULT_SHORT_TEMPLATE, { ...data, locale, messages });
+
+		return text.trim();
+	}
+
+	/**
+	 * Render the short plain text security notice, for SMS and webhooks
+	 */
+	async function renderShortNotice(
+		data: NoticeTemplateData,
+		templateName = options.templateName,
+		locale = translator.defaultLocale
+	): Promise<string> {
+		const template = await readLocalizedTemplate(`${templateName}-notice`, '.short.liquid', locale);
+
+		const messages = translator.messages(locale, 'notice', data as unknown as Record<string, unknown>);
+		const text = await textEngine.parseAndRender(template ?? DEFAULT_NOTICE_SHORT_TEMPLATE, { ...data, locale, messages });
+
+		return text.trim();
+	}
+
+	return { render, renderNotice, renderShortMessage, renderShortNotice };
+}
@@ -1,82 +1,470 @@
 // /extensions/endpoints/magic-link/index.js
 import { defineEndpoint } from '@directus/extensions-sdk';
 import crypto from 'crypto';
-import nodemailer from 'nodemailer';
-
-export default defineEndpoint((router, { services, database, env, logger }) => {
-	const { AuthenticationService } = services;
-
-	// Create a reusable transporter using SMTP configuration from environment
-	const transporter = nodemailer.createTransport({
-		host: env.EMAIL_SMTP_HOST || 'smtp.example.com',
-		port: parseInt(env.EMAIL_SMTP_PORT || '587'),
-		secure: env.EMAIL_SMTP_SECURE === 'true', // true for 465, false for other ports
-		auth: {
-			user: env.EMAIL_SMTP_USER || '',
-			pass: env.EMAIL_SMTP_PASSWORD || ''
-		}
-	});
-
-	// Get role lists from environment variables (empty arrays if not set)
-	const allowedRolesStr = env.MAGIC_LINK_ALLOWED_ROLES || '';
-	const disallowedRolesStr = env.MAGIC_LINK_DISALLOWED_ROLES || '';
+import { once } from 'events';
+import type { NextFunction, Request, Response } from 'express';
+import { createAccessPolicy } from './access';
+import {
+	BINDING_COOKIE,
+	createBrowserBinding,
+	isCodeChallenge,
+	type BindingMismatch,
+	type BindingMismatchPolicy
+} from './binding';
+import { createClientRegistry, isClientId, type MagicLinkClient } from './clients';
+import {
+	countAuditOutcomes,
+	exportAuditRecords,
+	getAuditColumns,
+	isAuditRecordType,
+	listAuditHistory,
+	listAuditRecords,
+	parseAuditFilters,
+	parseAuditPage,
+	toCsvLine,
+	toNdjsonLine,
+	type AuditFilters,
+	type AuditRecordType
+} from './audit';
+import { createDeliveryChannels } from './delivery';
+import { createEmailRenderer, SAMPLE_TEMPLATE_DATA, type RenderedEmail } from './email-templates';
+import { createDomainPolicy } from './domain-policy';
+import { createRateLimitStore, getNetworkKey } from './rate-limit';
+import { createSessionRegistry } from './sessions';
+import { renderConfirmPage, renderMessagePage, renderOutboxPage } from './pages';
+import { parseFormBody } from '../shared/form-body';
+import { createTranslator, type MessageKey, type MessageParams } from '../shared/i18n';
+import { createDomainMatcher } from '../shared/domains';
+import { createRedirectAllowlist, withQueryParams } from '../shared/redirects';
+import { createSettingsStore, type Settings } from '../shared/settings';
+import {
+	provideVerifier,
+	type LinkRequestInput,
+	type LinkRequestOutcome,
+	type VerificationInput,
+	type VerificationOutcome,
+	type VerifiedUser
+} from '../shared/verification';
+import { toBoolean, toList } from '../shared/utils';
+import {
+	codeHashInput,
+	createTokenHasher,
+	generateCode,
+	generateRequestId,
+	generateToken,
+	getRequestIssuedAt,
+	normalizeCode,
+	redactToken,
+	tokenFingerprint
+} from '../shared/tokens';
+import {
+	AUTH_MODES,
+	createSession,
+	getRequestSessionToken,
+	getSessionTtl,
+	isAuthMode,
+	setSessionCookie,
+	type AuthMode,
+	type SessionTokens
+} from '../shared/session';
+
+// A row of extension_magic_link
+interface MagicLinkRecord {
+	id: number;
+	email: string;
+	token: string;
+	expires_at: Date | string;
+	ip_address: string;
+	user_agent: string | null;
+	used: boolean;
+	used_at: Date | string | null;
+	used_ip: string | null;
+	used_user_agent: string | null;
+	code: string | null;
+	code_attempts: number;
+	registration: boolean;
+	first_name: string | null;
+	last_name: string | null;
+	request_id: string | null;
+	request_secret: string | null;
+	approved_at: Date | string | null;
+	claimed_at: Date | string | null;
+	binding: string | null;
+	client: string | null;
+}
+
+// What a cross-device request is polled by (see findPollRequest)
+type PollRecord = Pick<MagicLinkRecord, 'id' | 'email' | 'request_secret' | 'approved_at' | 'claimed_at'>;
+
+// The fields of directus_users the checks need (see findUser)
+interface MagicLinkUser extends VerifiedUser {
+	role: string | null;
+	status: string;
+	language: string | null;
+	tfa_secret: string | null;
+}
+
+// The user a link is requested for: an existing one, or the account a
+// registration link would create
+type LinkUser = Pick<MagicLinkUser, 'email' | 'first_name' | 'last_name' | 'role'> &
+	Partial<Pick<MagicLinkUser, 'status' | 'language' | 'tfa_secret'>> & { id: string | null };
+
+// The `magic-link.request` filter payload (see filterRequest)
+interface LinkRequest {
+	email: string;
+	registration: boolean;
+	client_id: string | null;
+	redirect_url: string | null;
+	mode: AuthMode | null;
+	expiration_minutes: number;
+	template: string;
+	ip_address: string;
+	user_agent: string;
+}
+
+// A token that may be used, with its user (null for registration links) and client
+interface CheckedToken {
+	tokenRecord: MagicLinkRecord;
+	user: MagicLinkUser | null;
+	client: MagicLinkClient | null;
+}
+
+export default defineEndpoint((router, { services, database, env, logger, getSchema, emitter }) => {
+	const { MailService, TFAService, UsersService } = services;
+
+	// Settings admins can change at runtime (extension_magic_link_settings), with
+	// the environment variables as defaults. They're applied in applySettings below
+	const settingsStore = createSettingsStore(database, env, logger);
+	const defaults = settingsStore.defaults;
+
+	// User status, role and policy checks (MAGIC_LINK_*_ROLES, MAGIC_LINK_*_POLICIES)
+	const accessPolicy = createAccessPolicy(database, env, logger);
+
+	// Key for hashing stored tokens: MAGIC_LINK_SECRET, else the Directus SECRET.
+	// It must be the same on all instances, or links only work on the one that sent them
+	const tokenSecret = env.MAGIC_LINK_SECRET || env.SECRET;
+
+	if (!tokenSecret) {
+		logger.warn('Neither MAGIC_LINK_SECRET nor SECRET is set, magic links will not survive a restart');
+	}
 
-	const allowedRoles = allowedRolesStr
-		.split(',')
-		.map((r) => r.trim())
-		.filter(Boolean);
-	const disallowedRoles = disallowedRolesStr
-		.split(',')
-		.map((r) => r.trim())
-		.filter(Boolean);
+	const tokenHasher = createTokenHasher(tokenSecret || generateToken());
 
-	// Maximum requests per hour (default: 5)
-	const maxRequestsPerHour = parseInt(env.MAGIC_LINK_MAX_REQUESTS_PER_HOUR || '5');
+	// Rate limits per sliding hour (0 disables a limit)
+	// Maximum requests per email address (default: 5)
+	let maxRequestsPerHour = defaults.max_requests_per_hour;
+	// Maximum requests per IP network (default: 20)
+	let maxRequestsPerIpPerHour = defaults.max_requests_per_ip_per_hour;
+	// Maximum emails sent by this extension in total (default: 1000)
+	let maxEmailsPerHour = defaults.max_emails_per_hour;
+	// Prefix lengths used to group IP addresses into networks for the per-IP limit
+	const ipv4Prefix = parseInt(env.MAGIC_LINK_RATE_LIMIT_IPV4_PREFIX || '32');
+	const ipv6Prefix = parseInt(env.MAGIC_LINK_RATE_LIMIT_IPV6_PREFIX || '64');
 
 	// Configuration options with defaults
 	const config = {
-		fromEmail: env.EMAIL_SMTP_USER || '"Magic Link" <noreply@example.com>',
-		expirationMinutes: parseInt(env.MAGIC_LINK_EXPIRATION_MINUTES || '15'),
+		// Sender address; Directus' MailService falls back to EMAIL_FROM when empty
+		fromEmail: defaults.email_from,
+		emailTransport: env.EMAIL_TRANSPORT || 'sendmail',
+		expirationMinutes: defaults.expiration_minutes,
 		publicUrl: env.PUBLIC_URL || 'http://localhost:8055',
-		emailSubject: env.MAGIC_LINK_SUBJECT || 'Your Magic Login Link',
-		verifyEndpoint: env.MAGIC_LINK_VERIFY_ENDPOINT || '/magic-link/verify'
+		emailSubject: defaults.email_subject,
+		// Liquid template looked up in EMAIL_TEMPLATES_PATH (falls back to the bundled default)
+		emailTemplate: defaults.email_template,
+		siteName: defaults.site_name,
+		verifyEndpoint: env.MAGIC_LINK_VERIFY_ENDPOINT || '/magic-link/verify',
+		// Mode used by /verify when the link doesn't specify one (json | cookie | session)
+		defaultMode: env.MAGIC_LINK_DEFAULT_MODE || 'json',
+		// Where a browser lands after a session mode login (the Data Studio app by default)
+		sessionRedirectUrl: defaults.session_redirect_url,
+		// Seconds in which the client that used a link may submit it again (0 = strictly once)
+		graceSeconds: parseInt(env.MAGIC_LINK_GRACE_SECONDS || '10'),
+		// What to do with a redirectUrl that isn't allowed: 'fallback' to the default URL or 'reject'
+		redirectPolicy: env.MAGIC_LINK_REDIRECT_POLICY === 'reject' ? 'reject' : 'fallback',
+		// Optional one-time code included in the email, for signing in on another device
+		otpEnabled: toBoolean(env.MAGIC_LINK_OTP_ENABLED) ?? false,
+		otpLength: parseInt(env.MAGIC_LINK_OTP_LENGTH || '6'),
+		otpFormat: env.MAGIC_LINK_OTP_FORMAT === 'alphanumeric' ? ('alphanumeric' as const) : ('numeric' as const),
+		otpMaxAttempts: parseInt(env.MAGIC_LINK_OTP_MAX_ATTEMPTS || '5'),
+		// Self-registration: unknown addresses in these domains get a link that creates the user
+		registrationEnabled: toBoolean(env.MAGIC_LINK_REGISTRATION_ENABLED) ?? false,
+		registrationRole: env.MAGIC_LINK_REGISTRATION_ROLE || null,
+		registrationStatus: env.MAGIC_LINK_REGISTRATION_STATUS || 'active',
+		// Users with two-factor authentication: 'otp' asks for their TOTP code, 'reject' refuses them
+		tfaPolicy: env.MAGIC_LINK_TFA_POLICY === 'reject' ? 'reject' : 'otp'
 	};
 
-	// Custom email sending function with improved error handling and logging
-	async function sendEmail(to, subject, text) {
-		logger.debug(`Attempting to send email to: ${to}`);
-		logger.debug(
-			`Using SMTP configuration - Host: ${env.EMAIL_SMTP_HOST}, Port: ${env.EMAIL_SMTP_PORT}, Secure: ${env.EMAIL_SMTP_SECURE}`
+	// Wrong TOTP codes allowed per user per hour
+	const maxTfaAttemptsPerHour = 5;
+
+	// Links tied to the browser that requested them (MAGIC_LINK_BINDING*)
+	const browserBinding = createBrowserBinding(env, logger, {
+		hash: tokenHasher.hash,
+		matches: tokenHasher.matches,
+		ipv4Prefix,
+		ipv6Prefix
+	});
+
+	if (browserBinding.policy === 'otp' && !config.otpEnabled) {
+		logger.warn('MAGIC_LINK_BINDING_MISMATCH is "otp", but MAGIC_LINK_OTP_ENABLED is off: mismatching links are rejected');
+	}
+
+	// Allowed, blocked and disposable email domains (MAGIC_LINK_*_DOMAINS)
+	const domainPolicy = createDomainPolicy(env, logger);
+
+	const registrationDomains = createDomainMatcher(toList(env.MAGIC_LINK_REGISTRATION_DOMAINS));
+
+	if (config.registrationEnabled && registrationDomains.isEmpty) {
+		logger.warn('MAGIC_LINK_REGISTRATION_ENABLED is set, but MAGIC_LINK_REGISTRATION_DOMAINS is empty: nobody can register');
+	}
+
+	// Whether an unknown email address may sign up through a magic link
+	function canRegister(email: string): boolean {
+		return config.registrationEnabled && registrationDomains.matches(email);
+	}
+
+	// Links may only point at PUBLIC_URL itself and the URLs listed in MAGIC_LINK_ALLOWED_REDIRECT_URLS
+	const redirectAllowlist = createRedirectAllowlist([
+		config.publicUrl,
+		...toList(env.MAGIC_LINK_ALLOWED_REDIRECT_URLS)
+	]);
+
+	// Applications with their own settings, selected with `client_id` (extension_magic_link_clients)
+	const clientRegistry = createClientRegistry(database, logger);
+
+	// Look up the client a request names; undefined if it names none, null if it's unknown
+	async function findClient(clientId: unknown): Promise<MagicLinkClient | null | undefined> {
+		if (clientId === undefined || clientId === null || clientId === '') return undefined;
+		if (!isClientId(clientId)) return null;
+
+		return clientRegistry.find(clientId);
+	}
+
+	// A client's redirect URLs replace MAGIC_LINK_ALLOWED_REDIRECT_URLS
+	function getRedirectAllowlist(client?: MagicLinkClient | null) {
+		return client?.redirectAllowlist ?? redirectAllowlist;
+	}
+
+	if (redirectAllowlist.invalid.length > 0) {
+		logger.warn(`Ignoring invalid MAGIC_LINK_ALLOWED_REDIRECT_URLS entries: ${redirectAllowlist.invalid.join(', ')}`);
+	}
+
+	// Bundled catalogs plus the overrides in MAGIC_LINK_LOCALES_PATH
+	const translator = createTranslator({
+		localesPath: env.MAGIC_LINK_LOCALES_PATH,
+		defaultLocale: env.MAGIC_LINK_DEFAULT_LOCALE,
+		logger
+	});
+
+	// Language of responses and pages: an explicit `locale`, the user's language, then the browser's
+	function getLocale(req: Request, user: Pick<VerifiedUser, 'language'> | null = null): string {
+		return translator.resolve(
+			req.body?.locale ?? req.query?.locale,
+			user?.language,
+			translator.negotiate(req.headers['accept-language'])
+		);
+	}
+
+	// Language of emails: the recipient's own language comes first, since they may
+	// open the email somewhere else than where it was requested
+	function getEmailLocale(req: Request, user: Pick<VerifiedUser, 'language'>): string {
+		return translator.resolve(
+			user?.language,
+			req.body?.locale ?? req.query?.locale,
+			translator.negotiate(req.headers['accept-language'])
 		);
-		logger.debug(`Using From address: ${config.fromEmail}`);
+	}
+
+	function t(
+		req: Request,
+		key: MessageKey,
+		params: MessageParams = {},
+		user: Pick<VerifiedUser, 'language'> | null = null
+	): string {
+		return translator.translate(getLocale(req, user), key, params);
+	}
+
+	// What the API's HTML pages need: site name, locale and translations
+	async function getPageContext(req: Request, user: Pick<VerifiedUser, 'language'> | null = null) {
+		const locale = getLocale(req, user);
+
+		return {
+			siteName: await getSiteName(),
+			locale,
+			t: (key: MessageKey, params?: MessageParams) => translator.translate(locale, key, params)
+		};
+	}
+
+	const emailRenderer = createEmailRenderer({
+		templatesPath: env.EMAIL_TEMPLATES_PATH,
+		templateName: config.emailTemplate,
+		subject: config.emailSubject,
+		translator
+	});
+
+	// Email, webhook or SMS (MAGIC_LINK_DELIVERY, MAGIC_LINK_CHANNEL_FIELD)
+	const deliveryChannels = createDeliveryChannels({ database, env, logger, sendEmail, renderer: emailRenderer });
+
+	// How often a long-polling /status request checks for approval, and how long it may wait
+	const POLL_INTERVAL_MS = 1000;
+	const MAX_POLL_WAIT_SECONDS = 25;
+	// Time the requesting device has to pick up the session once the link is approved
+	const HANDOVER_WINDOW_MS = 5 * 60 * 1000;
+
+	// Sessions created through magic links, which users can list and end
+	const sessionRegistry = createSessionRegistry(database, getSessionTtl(env, 'json'));
+
+	// Rate limit counters are kept in memory or Redis (MAGIC_LINK_RATE_LIMIT_STORE)
+	const rateLimitStore = createRateLimitStore(env, logger);
+
+	// Number of requests refused per limit since startup, included in the logs
+	const limitedRequests = { email: 0, ip: 0, global: 0, tfa: 0 };
+
+	// Record a hit against a limit; returns false once the limit is exceeded
+	async function checkLimit(type: keyof typeof limitedRequests, key: string, limit: number): Promise<boolean> {
+		if (limit <= 0) return true;
+
+		const { allowed, count } = await rateLimitStore.hit(`${type}:${key}`, limit, 3600000); // Last hour
+
+		if (!allowed) {
+			limitedRequests[type]++;
+			logger.warn(
+				`Magic link rate limit (${type}) exceeded for ${key} (${count}/${limit} per hour, ${limitedRequests[type]} limited since startup)`
+			);
+		}
+
+		return allowed;
+	}
+
+	// Emit a `magic-link.*` action event, which Flows and hook extensions can react to.
+	// Handlers run in the background; their errors never affect the request
+	function emitEvent(name: string, payload: Record<string, unknown>, req: Request | null = null): void {
+		emitter.emitAction(`magic-link.${name}`, payload, {
+			database,
+			schema: req?.schema ?? null,
+			accountability: req?.accountability ?? null
+		});
+	}
+
+	// Record an attempt that didn't result in a magic link, for auditing and rate limiting
+	// The outcome is 'denied', or 'rate_limited' for requests refused by a rate limit
+	async function recordDeniedAttempt(
+		email: string,
+		ipAddress: string,
+		userAgent: string,
+		reason: string,
+		outcome: 'denied' | 'rate_limited' = 'denied'
+	): Promise<void> {
+		await database('extension_magic_link').insert({
+			email,
+			token: crypto.randomBytes(32).toString('hex'), // Random token
+			expires_at: new Date(Date.now() + 60000), // 1 minute expiry
+			ip_address: ipAddress,
+			user_agent: userAgent,
+			used: true, // Mark as used so it can't be actually used
+			created_at: new Date(),
+			email_sent: false,
+			email_error: reason,
+			outcome
+		});
+
+		emitEvent('rejected', { stage: 'request', email, reason, ip_address: ipAddress, user_agent: userAgent });
+	}
+
+	// Record a verification attempt, successful or not, for auditing. A failure here
+	// must never break the verification itself
+	async function recordVerification(
+		req: Request,
+		tokenRecord: (Pick<MagicLinkRecord, 'email'> & Partial<Pick<MagicLinkRecord, 'id'>>) | null,
+		outcome: 'success' | 'failure',
+		reason: string | null = null,
+		user: LinkUser | null = null
+	): Promise<void> {
+		const method = req.path === '/verify-code' ? 'code' : req.path.startsWith('/status/') ? 'handover' : 'link';
+
+		try {
+			await database('extension_magic_link_events').insert({
+				magic_link: tokenRecord?.id ?? null,
+				email: tokenRecord?.email ?? null,
+				method,
+				outcome,
+				reason,
+				ip_address: getClientIp(req),
+				user_agent: getUserAgent(req),
+				created_at: new Date()
+			});
+		} catch (error) {
+			logger.error(`Error recording magic link verification: ${(error as Error).message}`);
+		}
+
+		const event = {
+			email: tokenRecord?.email ?? null,
+			method,
+			reason,
+			ip_address: getClientIp(req),
+			user_agent: getUserAgent(req)
+		};
+
+		if (outcome === 'success') {
+			emitEvent('verified', { ...event, user: user?.id ?? null, role: user?.role ?? null }, req);
+		} else {
+			emitEvent('rejected', { stage: 'verification', ...event }, req);
+		}
+	}
+
+	// Site name shown in emails: MAGIC_LINK_SITE_NAME, else the Directus project name
+	async function getSiteName() {
+		if (config.siteName) return config.siteName;
+
+		const settings = await database.select('project_name').from('directus_settings').first();
+		return settings?.project_name || 'Directus';
+	}
+
+	// Directus' MailService sends through the transport configured with EMAIL_TRANSPORT
+	// (smtp, ses, mailgun, sendmail, ...) and shares its pooled mailer. The service
+	// verifies the transport when constructed, so create it once and reuse it
+	let mailService: InstanceType<typeof MailService> | null = null;
+
+	async function getMailService(): Promise<InstanceType<typeof MailService>> {
+		if (!mailService) {
+			mailService = new MailService({ schema: await getSchema(), knex: database });
+		}
+
+		return mailService;
+	}
+
+	// Email sending function with improved error handling and logging
+	async function sendEmail(to: string, { subject, html, text }: RenderedEmail, from: string = config.fromEmail) {
+		logger.debug(`Attempting to send email to: ${to}`);
+		logger.debug(`Using email transport: ${config.emailTransport}`);
+		logger.debug(`Using From address: ${from || env.EMAIL_FROM}`);
 
 		try {
-			// Verify SMTP connection before sending
-			logger.debug('Verifying SMTP connection...');
-			await transporter.verify();
-			logger.debug('SMTP connection verified successfully');
-
-			// Proceed with sending the email
-			const info = await transporter.sendMail({
-				from: config.fromEmail,
+			const service = await getMailService();
+
+			const info = await service.send({
+				...(from && { from }),
 				to,
 				subject,
+				html,
 				text
 			});
 
-			logger.debug(`Email sent successfully. Message ID: ${info.messageId}`);
+			logger.debug(`Email sent successfully. Message ID: ${info?.messageId}`);
 			return info;
-		} catch (error) {
-			// Detailed SMTP error logging
-			logger.error(`Error sending email: ${error.message}`);
+		} catch (caught) {
+			const error = caught as Error & { code?: string; command?: string; response?: string };
+
+			// Detailed transport error logging
+			logger.error(`Error sending email via ${config.emailTransport}: ${error.message}`);
 
 			// Log more details about the error
-			if (error.code) logger.error(`SMTP Error Code: ${error.code}`);
+			if (error.code) logger.error(`Email Error Code: ${error.code}`);
 			if (error.command) logger.error(`SMTP Command: ${error.command}`);
-			if (error.response) logger.error(`SMTP Response: ${error.response}`);
+			if (error.response) logger.error(`Email Transport Response: ${error.response}`);
 
 			// Check for common SMTP issues
-			if (error.message.includes('Greeting never received')) {
+			if (config.emailTransport === 'smtp' && error.message.includes('Greeting never received')) {
 				logger.error(
 					'SMTP Connection Issue: The server did not respond with a greeting. This could indicate:'
 				);
@@ -86,7 +474,7 @@ export default defineEndpoint((router, { services, database, env, logger }) => {
 				logger.error('4. SMTP server is down or unreachable');
 			}
 
-			if (error.message.includes('Authentication failed')) {
+			if (config.emailTransport === 'smtp' && error.message.includes('Authentication failed')) {
 				logger.error(
 					'SMTP Authentication Issue: Could not authenticate with the provided credentials.'
 				);
@@ -95,459 +483,1655 @@ export default defineEndpoint((router, { services, database, env, logger }) => {
 
 			if (
 				error.message.includes('Policy violation') ||
-				error.message.includes('unauthorized use of sender')
+				error.message.includes('unauthorized use of sender') ||
+				error.message.includes('not verified')
 			) {
+				logger.error('Sender Authorization Issue: You are not authorized to send from this email address.');
 				logger.error(
-					'SMTP Authorization Issue: You are not authorized to send from this email address.'
-				);
-				logger.error(
-					`1. Make sure the "from" address (${config.fromEmail}) is allowed by your SMTP provider`
+					`1. Make sure the "from" address (${config.fromEmail || env.EMAIL_FROM}) is allowed by your email provider`
 				);
 				logger.error(
-					'2. The "from" address usually needs to match or be authorized for your SMTP account'
+					'2. The "from" address usually needs to match or be authorized for your sending account'
 				);
-				logger.error('3. Check your EMAIL_FROM environment variable');
+				logger.error('3. Check your EMAIL_FROM (or MAGIC_LINK_EMAIL_FROM) environment variable');
 			}
 
 			throw error; // Re-throw to handle in the calling function
 		}
 	}
 
-	// Basic test route - no auth required
-	router.get('/', (_req, res) => res.send('Magic Link Authentication Endpoint'));
+	// The settings last applied; the store returns the same object until they change
+	let appliedSettings: Settings | null = null;
 
-	// Generate magic link
-	router.post('/generate', async (req, res) => {
-		try {
-			logger.debug('Magic link generation requested');
+	// Apply the current runtime settings to the configuration above
+	async function applySettings(): Promise<void> {
+		const settings = await settingsStore.get();
+		if (settings === appliedSettings) return;
 
-			const email = req.body?.email;
-			// Get redirectUrl from request if provided
-			const redirectUrl = req.body?.redirectUrl;
+		config.expirationMinutes = settings.expiration_minutes;
+		config.emailSubject = settings.email_subject;
+		config.emailTemplate = settings.email_template;
+		config.fromEmail = settings.email_from;
+		config.siteName = settings.site_name;
+		config.sessionRedirectUrl = settings.session_redirect_url;
 
-			// Validate email - use generic error message
-			if (!email) {
-				logger.debug('Request missing email parameter');
-				return res.status(400).send({
-					success: false,
-					message: 'Please provide a valid email address'
-				});
-			}
+		maxRequestsPerHour = settings.max_requests_per_hour;
+		maxRequestsPerIpPerHour = settings.max_requests_per_ip_per_hour;
+		maxEmailsPerHour = settings.max_emails_per_hour;
 
-			// Basic email format validation
-			const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-			if (!emailRegex.test(email)) {
-				logger.debug(`Invalid email format: ${email}`);
-				return res.status(400).send({
-					success: false,
-					message: 'Please provide a valid email address'
-				});
-			}
+		accessPolicy.setRoles(settings.allowed_roles, settings.disallowed_roles);
 
-			// Send the response immediately to prevent timing attacks
-			res.send({
-				success: true,
-				message: 'If your email exists in our system, a magic link has been sent'
-			});
+		if (appliedSettings) logger.debug('Applied changed magic link settings');
+		appliedSettings = settings;
+	}
 
-			// Continue processing asynchronously after sending the response
-			processEmailRequest(email, req, redirectUrl).catch((error) => {
-				logger.error(`Error in async processing: ${error.message}`);
-				logger.debug(error.stack);
-			});
+	// Pick up changed settings before handling a request
+	router.use(async (_req, _res, next) => {
+		try {
+			await applySettings();
 		} catch (error) {
-			logger.error(`Error in generate endpoint: ${error.message}`);
-			logger.debug(error.stack);
+			logger.error(`Error applying magic link settings: ${(error as Error).message}`);
+		}
 
-			return res.status(500).send({
+		next();
+	});
+
+	// Basic test route - no auth required
+	router.get('/', (req, res) => res.send(t(req, 'api.endpoint')));
+
+	// Only let Directus admins through, based on the request's accountability
+	function requireAdmin(req: Request, res: Response, next: NextFunction) {
+		if (!req.accountability?.admin) {
+			return res.status(403).send({
 				success: false,
-				message: 'An error occurred while processing your request'
+				message: t(req, 'api.forbidden')
 			});
 		}
-	});
 
-	// Process email request asynchronously after response is sent
-	async function processEmailRequest(email, req, redirectUrl) {
-		// Get client info
-		const ipAddress = req.ip || req.headers['x-forwarded-for'] || 'unknown';
-		const userAgent = req.headers['user-agent'] || 'unknown';
-
-		try {
-			// Check rate limits for this email
-			const recentRequests = await database('extension_magic_link')
-				.where({ email })
-				.where('created_at', '>', new Date(Date.now() - 3600000)) // Last hour
-				.count('id as count');
+		return next();
+	}
 
-			const requestCount = parseInt(recentRequests[0].count);
+	// A query string parameter given once
+	function getQueryParam(req: Request, name: string): string | undefined {
+		const value = req.query?.[name];
+		return typeof value === 'string' ? value : undefined;
+	}
 
-			if (requestCount >= maxRequestsPerHour) {
-				logger.debug(
-					`Rate limit exceeded for email: ${email} (${requestCount}/${maxRequestsPerHour} per hour)`
-				);
+	// Preview an email template with sample data - admins only
+	router.get('/email-preview', requireAdmin, async (req, res) => {
+		try {
+			const templateName = getQueryParam(req, 'template') || config.emailTemplate;
+			const format = getQueryParam(req, 'format') || 'html';
+			const locale = translator.resolve(getQueryParam(req, 'locale'));
+			const data = { ...SAMPLE_TEMPLATE_DATA, site_name: await getSiteName(), site_url: config.publicUrl };
+
+			// The short message of the SMS and webhook channels
+			if (format === 'short') {
+				res.type('text/plain');
+				return res.send(await emailRenderer.renderShortMessage(data, templateName, locale));
+			}
 
-				// Invalidate all existing tokens for this user
-				await database('extension_magic_link')
-					.where({ email: email, used: false })
-					.update({ used: true, email_error: 'Superseded by new token' });
+			const message = await emailRenderer.render(data, templateName, config.emailSubject, locale);
 
-				// Record the rate-limited attempt for audit purposes
-				await database('extension_magic_link').insert({
-					email,
-					token: crypto.randomBytes(32).toString('hex'), // Random token
-					expires_at: new Date(Date.now() + 60000), // 1 minute expiry
-					ip_address: ipAddress,
-					user_agent: userAgent,
-					used: true, // Mark as used so it can't be actually used
-					created_at: new Date(),
-					email_sent: false,
-					email_error: 'Rate limit exceeded'
-				});
+			if (format === 'json') return res.send({ success: true, data: message });
 
-				return; // Stop processing
+			if (format === 'text') {
+				res.type('text/plain');
+				return res.send(message.text);
 			}
 
-			// Check if user exists - but don't tell the client if they don't
-			const user = await database
-				.select('id', 'email', 'role')
-				.from('directus_users')
-				.where({ email })
-				.first();
+			res.type('html');
+			return res.send(message.html);
+		} catch (error) {
+			logger.error(`Error rendering email preview: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
 
-			// If user doesn't exist, still record the attempt for rate limiting
-			if (!user) {
-				logger.debug(`User with email ${email} not found, recording attempt for rate limiting`);
+			return res.status(500).send({
+				success: false,
+				message: t(req, 'api.template_error', { error: (error as Error).message })
+			});
+		}
+	});
 
-				await database('extension_magic_link').insert({
-					email,
-					token: crypto.randomBytes(32).toString('hex'), // Random token
-					expires_at: new Date(Date.now() + 60000), // 1 minute expiry
-					ip_address: ipAddress,
-					user_agent: userAgent,
-					used: true, // Mark as used so it can't be actually used
-					created_at: new Date(),
-					email_sent: false,
-					email_error: 'User does not exist'
-				});
+	// Outbox of MAGIC_LINK_DELIVERY=outbox - admins only, and only when it's enabled
+	const { outbox } = deliveryChannels;
 
-				return; // Stop processing
+	router.use('/outbox', requireAdmin);
+
+	if (!outbox) {
+		router.use('/outbox', (req, res) =>
+			res.status(404).send({ success: false, message: t(req, 'api.outbox_disabled') })
+		);
+	} else {
+		// List the captured messages, newest first (?email=&format=json|html)
+		router.get('/outbox', async (req, res) => {
+			const messages = outbox.list(getQueryParam(req, 'email'));
+
+			if (req.query?.format === 'html') {
+				res.type('html');
+				return res.send(renderOutboxPage({ siteName: await getSiteName(), messages, basePath: `${req.baseUrl}/outbox` }));
 			}
 
-			// Apply role-based access control
+			return res.send({ success: true, data: messages.map(({ html, text, ...message }) => message) });
+		});
 
-			// If allowed roles are specified, check if user has one
-			if (allowedRoles.length > 0 && !allowedRoles.includes(user.role)) {
-				logger.debug(`Magic link denied: User role ${user.role} not in allowed roles list`);
+		// One message, as JSON or the email itself (?format=json|html|text)
+		router.get('/outbox/:id', (req, res) => {
+			const message = outbox.get(req.params.id);
 
-				// Record the attempt for rate limiting
-				await database('extension_magic_link').insert({
-					email: user.email,
-					token: crypto.randomBytes(32).toString('hex'),
-					expires_at: new Date(Date.now() + 60000),
-					ip_address: ipAddress,
-					user_agent: userAgent,
-					used: true,
-					created_at: new Date(),
-					email_sent: false,
-					email_error: 'User role not allowed'
-				});
+			if (!message) return res.status(404).send({ success: false, message: t(req, 'api.message_not_found') });
 
-				return; // Stop processing
+			if (req.query?.format === 'html') {
+				res.type('html');
+				return res.send(message.html);
 			}
 
-			// If disallowed roles are specified, check if user has one
-			if (disallowedRoles.length > 0 && disallowedRoles.includes(user.role)) {
-				logger.debug(`Magic link denied: User role ${user.role} in disallowed roles list`);
-
-				// Record the attempt for rate limiting
-				await database('extension_magic_link').insert({
-					email: user.email,
-					token: crypto.randomBytes(32).toString('hex'),
-					expires_at: new Date(Date.now() + 60000),
-					ip_address: ipAddress,
-					user_agent: userAgent,
-					used: true,
-					created_at: new Date(),
-					email_sent: false,
-					email_error: 'User role disallowed'
-				});
-
-				return; // Stop processing
+			if (req.query?.format === 'text') {
+				res.type('text/plain');
+				return res.send(message.text);
 			}
 
-			// Generate a secure token
-			const token = crypto.randomBytes(32).toString('hex');
+			return res.send({ success: true, data: message });
+		});
 
-			// Set expiration time
-			const expiresAt = new Date();
-			expiresAt.setMinutes(expiresAt.getMinutes() + config.expirationMinutes);
+		// Empty the outbox, e.g. between end-to-end tests
+		router.delete('/outbox', (_req, res) => {
+			outbox.clear();
 
-			// Invalidate all existing tokens for this user
-			await database('extension_magic_link')
-				.where({ email: user.email, used: false })
-				.update({ used: true, email_error: 'Superseded by new token' });
+			return res.send({ success: true });
+		});
+	}
 
-			// Store the new token in the database - email_sent defaults to NULL (pending)
-			await database('extension_magic_link').insert({
-				email: user.email,
-				token,
-				expires_at: expiresAt,
-				ip_address: ipAddress,
-				user_agent: userAgent,
-				used: false,
-				created_at: new Date(),
-				email_sent: null,
-				email_error: null
+	// Only let signed-in users through
+	function requireUser(req: Request, res: Response, next: NextFunction) {
+		if (!req.accountability?.user) {
+			return res.status(401).send({
+				success: false,
+				message: t(req, 'api.unauthenticated')
 			});
+		}
 
-			// When constructing the verification URL, use the redirectUrl if provided
-			// Otherwise use the default URL from config
-			let verificationUrl;
-			if (redirectUrl) {
-				// Use the provided redirectUrl but append the token
-				verificationUrl = `${redirectUrl}?token=${token}`;
-				logger.debug(`Using custom redirect URL: ${verificationUrl}`);
-			} else {
-				// Use the default URL
-				verificationUrl = `${config.publicUrl}${config.verifyEndpoint}?token=${token}`;
-				logger.debug(`Using default verification URL: ${verificationUrl}`);
-			}
-
-			logger.debug(`Magic link generated for ${user.email}, expires at ${expiresAt.toISOString()}`);
-			logger.debug(`Verification URL: ${verificationUrl}`);
+		return next();
+	}
 
-			try {
-				logger.debug('Attempting to send magic link email');
+	// List the caller's sessions created through magic links, newest first
+	router.get('/sessions', requireUser, async (req, res) => {
+		try {
+			const data = await sessionRegistry.list(req.accountability!.user!, getRequestSessionToken(env, req));
 
-				// Send email using our custom function
-				await sendEmail(
-					user.email,
-					config.emailSubject,
-					`Login Request
+			return res.send({ success: true, data });
+		} catch (error) {
+			logger.error(`Error listing magic link sessions: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
 
-Click the link below to log in. This link will expire in ${config.expirationMinutes} minutes.
+			return res.status(500).send({ success: false, message: t(req, 'api.error') });
+		}
+	});
 
-${verificationUrl}
+	// Log out everywhere: end all of the caller's magic link sessions
+	router.delete('/sessions', requireUser, async (req, res) => {
+		try {
+			const revoked = await sessionRegistry.revokeAll(req.accountability!.user!);
 
-If you didn't request this link, you can safely ignore this email.
+			logger.debug(`User ${req.accountability!.user} ended ${revoked} magic link sessions`);
 
-Best regards,
-Your Team`
-				);
+			return res.send({ success: true, data: { revoked } });
+		} catch (error) {
+			logger.error(`Error ending magic link sessions: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
 
-				// Update the token record to indicate successful email delivery
-				await database('extension_magic_link').where({ token }).update({
-					email_sent: true,
-					email_error: null
-				});
+			return res.status(500).send({ success: false, message: t(req, 'api.error') });
+		}
+	});
 
-				logger.debug(`Magic link email sent successfully to ${user.email}`);
-			} catch (error) {
-				// More detailed error handling
-				logger.error(`Failed to send magic link email: ${error.message}`);
+	// Log out one device: end one of the caller's magic link sessions
+	router.delete('/sessions/:id', requireUser, async (req, res) => {
+		try {
+			const revoked = await sessionRegistry.revoke(req.accountability!.user!, parseInt(String(req.params.id)));
 
-				// Update the token record to indicate email sending failed
-				await database('extension_magic_link')
-					.where({ token })
-					.update({
-						email_sent: false,
-						email_error: error.message.substring(0, 255) // Store truncated error message
-					});
+			if (!revoked) return res.status(404).send({ success: false, message: t(req, 'api.session_not_found') });
 
-				// Log attempted email for manual follow-up if needed
-				logger.info(`Email sending failed for token: ${token}, user: ${user.email}`);
-			}
+			return res.send({ success: true, data: { revoked: 1 } });
 		} catch (error) {
-			logger.error(`Error processing email request: ${error.message}`);
-			logger.debug(error.stack);
+			logger.error(`Error ending magic link session: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return res.status(500).send({ success: false, message: t(req, 'api.error') });
 		}
-	}
+	});
 
-	// Verify magic link
-	router.get('/verify', async (req, res) => {
+	// End all magic link sessions of a user - admins only
+	router.delete('/users/:userId/sessions', requireAdmin, async (req, res) => {
 		try {
-			logger.debug('Magic link verification requested');
+			const revoked = await sessionRegistry.revokeAll(String(req.params.userId));
 
-			const token = req.query?.token;
+			logger.info(`Admin ${req.accountability?.user} ended ${revoked} magic link sessions of user ${req.params.userId}`);
 
-			// Validate token - use generic error
-			if (!token) {
-				logger.debug('Request missing token parameter');
-				return res.status(400).send({
-					success: false,
-					message: 'Invalid or missing token'
-				});
-			}
+			return res.send({ success: true, data: { revoked } });
+		} catch (error) {
+			logger.error(`Error ending magic link sessions: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
 
-			// Look up the token in the database
-			const tokenRecord = await database
-				.select('*')
-				.from('extension_magic_link')
-				.where({ token })
-				.first();
+			return res.status(500).send({ success: false, message: t(req, 'api.error') });
+		}
+	});
 
-			// Use a consistent error message for all token issues
-			if (!tokenRecord) {
-				logger.debug(`Token not found: ${token}`);
-				return res.status(401).send({
-					success: false,
-					message: 'Invalid or expired link. Please request a new one.'
-				});
-			}
+	// Audit API - admins only. `:type` is `attempts` (link requests) or
+	// `verifications` (verification attempts)
+	router.use('/audit', requireAdmin);
 
-			// Check if token is expired
-			if (new Date(tokenRecord.expires_at) < new Date()) {
-				logger.debug(`Token expired at ${tokenRecord.expires_at}`);
-				return res.status(401).send({
-					success: false,
-					message: 'Invalid or expired link. Please request a new one.'
-				});
-			}
+	// Validate the record type and filters shared by all audit routes
+	function getAuditQuery(req: Request, res: Response): { type: AuditRecordType; filters: AuditFilters } | null {
+		const type = req.params.type;
 
-			// Check if token has already been used
-			if (tokenRecord.used) {
-				logger.debug(`Token already used: ${token}`);
-				return res.status(401).send({
-					success: false,
-					message: 'Invalid or expired link. Please request a new one.'
-				});
-			}
+		if (!isAuditRecordType(type)) {
+			res.status(404).send({ success: false, message: t(req, 'api.unknown_audit_type') });
+			return null;
+		}
 
-			// Find the user associated with this token
-			const user = await database
-				.select('id', 'email', 'first_name', 'last_name', 'role')
-				.from('directus_users')
-				.where({ email: tokenRecord.email })
-				.first();
+		const parsed = parseAuditFilters(type, req.query, (key, params) => t(req, key, params));
 
-			if (!user) {
-				logger.debug(`User not found for token: ${token}`);
-				return res.status(401).send({
-					success: false,
-					message: 'Invalid or expired link. Please request a new one.'
-				});
-			}
+		if (parsed.error !== undefined) {
+			res.status(400).send({ success: false, message: parsed.error });
+			return null;
+		}
 
-			// Apply role-based access control on verification too
-			// If allowed roles are specified, check if user has one
-			if (allowedRoles.length > 0 && !allowedRoles.includes(user.role)) {
-				logger.debug(
-					`Magic link verification denied: User role ${user.role} not in allowed roles list`
-				);
-				return res.status(401).send({
-					success: false,
-					message: 'Invalid or expired link. Please request a new one.'
-				});
-			}
+		return { type, filters: parsed.filters };
+	}
 
-			// If disallowed roles are specified, check if user has one
-			if (disallowedRoles.length > 0 && disallowedRoles.includes(user.role)) {
-				logger.debug(
-					`Magic link verification denied: User role ${user.role} in disallowed roles list`
-				);
-				return res.status(401).send({
-					success: false,
-					message: 'Invalid or expired link. Please request a new one.'
-				});
-			}
+	// List records, newest first: ?email=&ip=&outcome=&from=&to=&limit=&page=
+	router.get('/audit/:type', async (req, res) => {
+		try {
+			const query = getAuditQuery(req, res);
+			if (!query) return;
 
-			// Create a refresh token
-			const refreshToken = crypto.randomBytes(32).toString('hex');
-			const refreshTokenExpiration = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+			const page = parseAuditPage(req.query);
+			const { data, total } = await listAuditRecords(database, query.type, query.filters, page);
 
-			// Store refresh token in the database with user ID
-			await database('directus_sessions').insert({
-				token: refreshToken,
-				user: user.id,
-				expires: refreshTokenExpiration,
-				ip: req.ip,
-				user_agent: req.get('user-agent'),
-				origin: req.get('origin')
-			});
+			return res.send({ success: true, data, meta: { total, page: page.page, limit: page.limit } });
+		} catch (error) {
+			logger.error(`Error listing magic link audit records: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
 
-			// Use AuthenticationService to generate access and refresh tokens
-			const authenticationService = new AuthenticationService({
-				accountability: {
-					ip: req.ip,
-					userAgent: req.get('user-agent'),
-					origin: req.get('origin')
-				},
-				schema: req.schema
-			});
+			return res.status(500).send({ success: false, message: t(req, 'api.error') });
+		}
+	});
 
-			try {
-				// The refresh method creates new tokens from an existing refresh token
-				const {
-					accessToken,
-					refreshToken: newRefreshToken,
-					expires
-				} = await authenticationService.refresh(refreshToken);
-
-				// Get CORS origin and protocol
-				const origin = req.get('origin') || '';
-				const isSecure = origin.startsWith('https://') || process.env.NODE_ENV === 'production';
-
-				// Determine if cross-origin request and set appropriate cookie settings
-				const isCrossOrigin = origin && req.get('host') && !origin.includes(req.get('host'));
-				const sameSiteSetting = isCrossOrigin ? 'none' : 'lax';
-
-				logger.debug(
-					`Cookie setup - Origin: ${origin}, Secure: ${isSecure}, Cross-Origin: ${isCrossOrigin}, SameSite: ${sameSiteSetting}`
-				);
+	// Number of records per outcome, with the same filters
+	router.get('/audit/:type/stats', async (req, res) => {
+		try {
+			const query = getAuditQuery(req, res);
+			if (!query) return;
+
+			const outcomes = await countAuditOutcomes(database, query.type, query.filters);
+			const total = Object.values(outcomes).reduce((sum, count) => sum + count, 0);
+
+			return res.send({ success: true, data: { total, outcomes } });
+		} catch (error) {
+			logger.error(`Error counting magic link audit records: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return res.status(500).send({ success: false, message: t(req, 'api.error') });
+		}
+	});
+
+	// Daily counts per outcome of records removed by the retention job (?outcome=&from=&to=)
+	router.get('/audit/:type/history', async (req, res) => {
+		try {
+			const query = getAuditQuery(req, res);
+			if (!query) return;
+
+			const data = await listAuditHistory(database, query.type, query.filters);
+
+			return res.send({ success: true, data });
+		} catch (error) {
+			logger.error(`Error reading magic link audit history: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return res.status(500).send({ success: false, message: t(req, 'api.error') });
+		}
+	});
+
+	// Export all matching records, oldest first, as CSV or NDJSON (?format=csv|ndjson)
+	router.get('/audit/:type/export', async (req, res) => {
+		const format = getQueryParam(req, 'format') || 'csv';
+
+		if (format !== 'csv' && format !== 'ndjson') {
+			return res.status(400).send({ success: false, message: t(req, 'api.invalid_export_format') });
+		}
+
+		const query = getAuditQuery(req, res);
+		if (!query) return;
+
+		const columns = getAuditColumns(query.type);
+		const fileName = `magic-link-${query.type}-${new Date().toISOString().substring(0, 10)}.${format}`;
+
+		res.type(format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+		res.attachment(fileName);
+
+		try {
+			if (format === 'csv') res.write(toCsvLine(columns));
+
+			for await (const record of exportAuditRecords(database, query.type, query.filters)) {
+				const line = format === 'csv' ? toCsvLine(columns.map((column) => record[column])) : toNdjsonLine(record);
+
+				// Wait for the client to catch up instead of buffering the whole export
+				if (!res.write(line)) await once(res, 'drain');
+			}
+
+			return res.end();
+		} catch (error) {
+			// Headers are gone already, so all that's left is to cut the file short
+			logger.error(`Error exporting magic link audit records: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return res.destroy(error as Error);
+		}
+	});
+
+	// Request a magic link. The response never tells whether a link was sent;
+	// the email is processed after it. Returns the outcome (see shared/verification.ts)
+	async function requestLink(req: Request, res: Response, input: LinkRequestInput): Promise<LinkRequestOutcome> {
+		try {
+			logger.debug('Magic link generation requested');
+
+			const email = input.email;
+			// Get redirectUrl from request if provided
+			let redirectUrl = input.redirectUrl;
+			// Optional authentication mode the emailed link should use (json | cookie | session)
+			const mode = input.mode;
+			// Optional cross-device sign-in: this device polls /status while the link is opened elsewhere
+			const crossDevice = toBoolean(input.cross_device) ?? false;
+			// Optional application the link is for, with its own settings
+			const client = await findClient(input.client_id);
+			// Optional name for self-registration, used only if the email isn't known yet
+			const profile = {
+				first_name: cleanName(input.first_name),
+				last_name: cleanName(input.last_name)
+			};
+
+			// Validate email - use generic error message
+			if (!email) {
+				logger.debug('Request missing email parameter');
+				return failure(req, 400, 'api.invalid_email');
+			}
+
+			// Basic email format validation
+			const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+			if (!emailRegex.test(email)) {
+				logger.debug(`Invalid email format: ${email}`);
+				return failure(req, 400, 'api.invalid_email');
+			}
+
+			if (client === null) {
+				logger.debug(`Unknown client: ${input.client_id}`);
+				return { type: 'error', status: 400, message: t(req, 'api.unknown_client') };
+			}
+
+			// Never email a login token pointing at a URL that isn't allowlisted
+			if (redirectUrl && !getRedirectAllowlist(client).isAllowed(redirectUrl)) {
+				logger.warn(`Redirect URL not allowed: ${redirectUrl}`);
+
+				if (config.redirectPolicy === 'reject') return failure(req, 400, 'api.redirect_not_allowed');
+
+				// Fall back to the default verification URL
+				redirectUrl = undefined;
+			}
+
+			if (mode !== undefined && !isAuthMode(mode)) {
+				logger.debug(`Invalid authentication mode: ${mode}`);
+				return { type: 'error', status: 400, message: t(req, 'api.invalid_mode', { modes: AUTH_MODES.join(', ') }) };
+			}
+
+			if (input.code_challenge !== undefined && !isCodeChallenge(input.code_challenge)) {
+				logger.debug('Invalid code challenge');
+				return {
+					type: 'error',
+					status: 400,
+					message: t(req, 'api.invalid_code_challenge')
+				};
+			}
+
+			const expirationMinutes = client?.expirationMinutes ?? config.expirationMinutes;
+
+			// A cross-device request gets an ID to poll with and a secret that proves this
+			// device made it. Both are returned whether or not a link is actually sent
+			const pollRequest = crossDevice ? { id: generateRequestId(), secret: generateToken() } : null;
 
-				// Set the refresh token cookie with appropriate security settings
-				res.cookie('directus_refresh_token', newRefreshToken, {
-					httpOnly: true,
-					maxAge: expires,
-					secure: isSecure,
-					sameSite: sameSiteSetting,
-					path: '/'
+			// Tie the link to this browser - not for cross-device requests, whose links are
+			// meant to be opened elsewhere
+			const binding = crossDevice ? null : browserBinding.bind(req, res, expirationMinutes, input.code_challenge);
+
+			// Continue processing asynchronously; the caller responds right away to
+			// prevent timing attacks
+			processEmailRequest(email, req, redirectUrl, mode, profile, pollRequest, binding, client ?? null).catch((error) => {
+				logger.error(`Error in async processing: ${(error as Error).message}`);
+				logger.debug((error as Error).stack);
+			});
+
+			return {
+				type: 'requested',
+				status: 200,
+				message: t(req, 'api.link_sent'),
+				poll: pollRequest && {
+					request_id: pollRequest.id,
+					request_secret: pollRequest.secret,
+					expires_at: new Date(Date.now() + expirationMinutes * 60 * 1000).toISOString()
+				}
+			};
+		} catch (error) {
+			logger.error(`Error in generate endpoint: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return failure(req, 500, 'api.error');
+		}
+	}
+
+	// The fields of a link request
+	function getLinkRequestInput(req: Request): LinkRequestInput {
+		return Object.fromEntries(
+			['email', 'redirectUrl', 'mode', 'client_id', 'code_challenge', 'cross_device', 'first_name', 'last_name']
+				.filter((name) => req.body?.[name] !== undefined && req.body?.[name] !== null)
+				.map((name) => [name, req.body[name]])
+		);
+	}
+
+	// Generate magic link
+	router.post('/generate', async (req, res) => {
+		const outcome = await requestLink(req, res, getLinkRequestInput(req));
+
+		if (outcome.type === 'error') {
+			return res.status(outcome.status).send({ success: false, message: outcome.message });
+		}
+
+		return res.send({ success: true, message: outcome.message, ...(outcome.poll && { data: outcome.poll }) });
+	});
+
+	function getClientIp(req: Request): string {
+		return req.ip || String(req.headers['x-forwarded-for'] || 'unknown');
+	}
+
+	function getUserAgent(req: Request): string {
+		return req.headers['user-agent'] || 'unknown';
+	}
+
+	// Look up a user by email address, with the fields the checks need
+	async function findUser(email: string): Promise<MagicLinkUser | undefined> {
+		return database
+			.select('id', 'email', 'first_name', 'last_name', 'role', 'status', 'language', 'tfa_secret')
+			.from('directus_users')
+			.where({ email })
+			.first();
+	}
+
+	// Users with two-factor authentication can't use magic links with the reject policy
+	function getTfaDenial(user: LinkUser): 'Two-factor authentication enabled' | null {
+		return user.tfa_secret && config.tfaPolicy === 'reject' ? 'Two-factor authentication enabled' : null;
+	}
+
+	// Names passed to /generate end up in directus_users, which allows 50 characters
+	function cleanName(value: unknown): string | null {
+		if (typeof value !== 'string') return null;
+		return value.trim().substring(0, 50) || null;
+	}
+
+	// Process email request asynchronously after response is sent
+	async function processEmailRequest(
+		email: string,
+		req: Request,
+		redirectUrl: string | undefined,
+		mode: AuthMode | undefined,
+		profile: { first_name: string | null; last_name: string | null },
+		pollRequest: { id: string; secret: string } | null,
+		binding: string | null,
+		client: MagicLinkClient | null
+	): Promise<void> {
+		// Get client info
+		const ipAddress = getClientIp(req);
+		const userAgent = getUserAgent(req);
+
+		emitEvent('requested', { email, ip_address: ipAddress, user_agent: userAgent, cross_device: Boolean(pollRequest) }, req);
+
+		try {
+			// Check rate limits for the requesting network and for this email
+			// Limited requests get the same response as any other, so nothing is revealed
+			if (!(await checkLimit('ip', getNetworkKey(ipAddress, ipv4Prefix, ipv6Prefix), maxRequestsPerIpPerHour))) {
+				await recordDeniedAttempt(email, ipAddress, userAgent, 'IP rate limit exceeded', 'rate_limited');
+				return; // Stop processing
+			}
+
+			if (!(await checkLimit('email', email.toLowerCase(), maxRequestsPerHour))) {
+				// Invalidate all existing tokens for this user
+				await database('extension_magic_link')
+					.where({ email: email, used: false })
+					.update({ used: true, email_error: 'Superseded by new token' });
+
+				// Record the rate-limited attempt for audit purposes
+				await recordDeniedAttempt(email, ipAddress, userAgent, 'Rate limit exceeded', 'rate_limited');
+
+				return; // Stop processing
+			}
+
+			// Apply the email domain policy (allowed, blocked and disposable domains)
+			const domainDenial = domainPolicy.check(email);
+
+			if (domainDenial) {
+				logger.debug(`Magic link denied for ${email}: ${domainDenial}`);
+
+				// Record the attempt for auditing
+				await recordDeniedAttempt(email, ipAddress, userAgent, domainDenial);
+
+				return; // Stop processing
+			}
+
+			// Check if user exists - but don't tell the client if they don't
+			let user: LinkUser | undefined = await findUser(email);
+
+			// Unknown addresses may get a registration link; the user is only created once
+			// the link is verified, so requests for addresses nobody owns leave no account behind
+			const registration = !user && canRegister(email);
+
+			if (registration) {
+				logger.debug(`User with email ${email} not found, sending a registration link`);
+
+				user = { id: null, email, ...profile, role: config.registrationRole };
+			}
+
+			// If user doesn't exist, still record the attempt for rate limiting
+			if (!user) {
+				logger.debug(`User with email ${email} not found, recording attempt for auditing`);
+
+				await recordDeniedAttempt(email, ipAddress, userAgent, 'User does not exist');
+
+				return; // Stop processing
+			}
+
+			// Apply the user status, role and policy checks, including the client's roles
+			const accessDenial = (await accessPolicy.check(user, client?.allowedRoles)) ?? getTfaDenial(user);
+
+			if (accessDenial) {
+				logger.debug(`Magic link denied for ${user.email}: ${accessDenial}`);
+
+				// Record the attempt for auditing
+				await recordDeniedAttempt(user.email, ipAddress, userAgent, accessDenial);
+
+				return; // Stop processing
+			}
+
+			// Let other extensions veto or adjust the request before a token is issued
+			const request = await filterRequest(req, user, client, {
+				email: user.email,
+				registration,
+				client_id: client?.id ?? null,
+				redirect_url: redirectUrl ?? null,
+				mode: mode ?? null,
+				expiration_minutes: client?.expirationMinutes ?? config.expirationMinutes,
+				template: client?.emailTemplate ?? config.emailTemplate,
+				ip_address: ipAddress,
+				user_agent: userAgent
+			});
+
+			if (!request) {
+				await recordDeniedAttempt(user.email, ipAddress, userAgent, 'Rejected by filter hook');
+				return; // Stop processing
+			}
+
+			// Global ceiling on emails sent, protecting the sending quota
+			if (!(await checkLimit('global', 'emails', maxEmailsPerHour))) {
+				await recordDeniedAttempt(user.email, ipAddress, userAgent, 'Global send limit exceeded', 'rate_limited');
+				return; // Stop processing
+			}
+
+			// Generate a secure token - only its hash is stored
+			const token = generateToken();
+			const tokenHash = tokenHasher.hash(token);
+			// The optional one-time code is only stored hashed too
+			const code = config.otpEnabled ? generateCode(config.otpLength, config.otpFormat) : null;
+
+			// Set expiration time
+			const expiresAt = new Date();
+			expiresAt.setMinutes(expiresAt.getMinutes() + request.expiration_minutes);
+
+			// Invalidate all existing tokens for this user
+			await database('extension_magic_link')
+				.where({ email: user.email, used: false })
+				.update({ used: true, email_error: 'Superseded by new token' });
+
+			// The user's preferred channel, or the default one
+			const recipient = await deliveryChannels.pick(user);
+
+			// Store the new token in the database - email_sent (delivered, whatever the
+			// channel) defaults to NULL (pending)
+			await database('extension_magic_link').insert({
+				email: user.email,
+				token: tokenHash,
+				code: code ? tokenHasher.hash(codeHashInput(user.email, code)) : null,
+				registration,
+				first_name: registration ? user.first_name : null,
+				last_name: registration ? user.last_name : null,
+				request_id: pollRequest?.id ?? null,
+				request_secret: pollRequest ? tokenHasher.hash(pollRequest.secret) : null,
+				binding,
+				client: client?.id ?? null,
+				channel: recipient.channel,
+				expires_at: expiresAt,
+				ip_address: ipAddress,
+				user_agent: userAgent,
+				used: false,
+				created_at: new Date(),
+				email_sent: null,
+				email_error: null,
+				outcome: 'pending'
+			});
+
+			// When constructing the verification URL, use the redirectUrl if provided
+			// Otherwise use the default URL from config. The token (and mode, if the requester
+			// asked for one, and the client) are added to any query string and fragment already in the URL
+			const baseUrl = request.redirect_url || `${config.publicUrl}${config.verifyEndpoint}`;
+			const verificationUrl = withQueryParams(baseUrl, {
+				token,
+				mode: request.mode ?? undefined,
+				client_id: client?.id ?? undefined
+			});
+
+			if (request.redirect_url) {
+				logger.debug(`Using custom redirect URL: ${redactToken(verificationUrl, token)}`);
+			} else {
+				logger.debug(`Using default verification URL: ${redactToken(verificationUrl, token)}`);
+			}
+
+			logger.debug(`Magic link generated for ${user.email}, expires at ${expiresAt.toISOString()}`);
+			logger.debug(`Verification URL: ${redactToken(verificationUrl, token)}`);
+
+			try {
+				logger.debug(`Attempting to send magic link (${recipient.channel})`);
+
+				const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+
+				const data = {
+					first_name: user.first_name,
+					last_name: user.last_name,
+					name: name || user.email,
+					email: user.email,
+					link: verificationUrl,
+					code,
+					registration,
+					expiration_minutes: request.expiration_minutes,
+					expires_at: expiresAt.toISOString(),
+					ip_address: ipAddress,
+					user_agent: userAgent,
+					site_name: await getSiteName(),
+					site_url: config.publicUrl
+				};
+
+				await deliveryChannels.send(recipient, {
+					data,
+					template: request.template,
+					subject: client?.emailSubject ?? config.emailSubject,
+					locale: getEmailLocale(req, user),
+					from: client?.emailFrom ?? config.fromEmail
 				});
 
-				// Also set token in Authorization header for this response
-				res.setHeader('Authorization', `Bearer ${accessToken}`);
+				// Update the token record to indicate successful delivery
+				await database('extension_magic_link').where({ token: tokenHash }).update({
+					email_sent: true,
+					email_error: null,
+					outcome: 'sent'
+				});
 
-				logger.debug(`Authentication successful for user: ${user.email}`);
-				logger.debug(`Cookie settings - Secure: ${isSecure}, SameSite: ${sameSiteSetting}`);
+				logger.debug(`Magic link sent successfully to ${user.email} (${recipient.channel})`);
 
-				// NOT marking the token as used to allow multiple attempts with the same link
-				// This helps prevent issues with email clients or browsers that may try to verify the link multiple times
-				// await database('extension_magic_link').where({ id: tokenRecord.id }).update({ used: true });
-				logger.debug(`Token kept active for user: ${user.email} (allowing multiple verification attempts)`);
+				emitEvent('sent', {
+					email: user.email,
+					user: user.id,
+					role: user.role,
+					registration,
+					channel: recipient.channel,
+					expires_at: expiresAt.toISOString()
+				});
+			} catch (caught) {
+				const error = caught as Error;
+
+				// More detailed error handling
+				logger.error(`Failed to send magic link (${recipient.channel}): ${error.message}`);
+
+				// Update the token record to indicate sending failed
+				await database('extension_magic_link')
+					.where({ token: tokenHash })
+					.update({
+						email_sent: false,
+						email_error: error.message.substring(0, 255), // Store truncated error message
+						outcome: 'send_failed'
+					});
+
+				// Log attempted email for manual follow-up if needed
+				logger.info(`Sending failed for token: ${tokenFingerprint(tokenHash)}, user: ${user.email} (${recipient.channel})`);
+
+				emitEvent('send-failed', { email: user.email, user: user.id, channel: recipient.channel, error: error.message });
+			}
+		} catch (error) {
+			logger.error(`Error processing email request: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+		}
+	}
+
+	// Run the `magic-link.request` filter, letting other extensions change the request
+	// (redirect_url, mode, expiration_minutes, template) or veto it by throwing.
+	// Returns null when the request was vetoed
+	async function filterRequest(
+		req: Request,
+		user: LinkUser,
+		client: MagicLinkClient | null,
+		request: LinkRequest
+	): Promise<LinkRequest | null> {
+		let filtered;
+
+		try {
+			filtered = await emitter.emitFilter(
+				'magic-link.request',
+				request,
+				{ event: 'magic-link.request', user: user.id ? { id: user.id, email: user.email, role: user.role } : null },
+				{ database, schema: req.schema ?? null, accountability: req.accountability ?? null }
+			);
+		} catch (error) {
+			logger.debug(`Magic link request for ${request.email} vetoed by a filter hook: ${(error as Error).message}`);
+			return null;
+		}
+
+		// Changed values get the same checks as values from the client
+		if (filtered.redirect_url && !getRedirectAllowlist(client).isAllowed(filtered.redirect_url)) {
+			logger.warn(`Redirect URL from a filter hook not allowed: ${filtered.redirect_url}`);
+			filtered.redirect_url = request.redirect_url;
+		}
+
+		if (filtered.mode && !isAuthMode(filtered.mode)) {
+			logger.warn(`Invalid authentication mode from a filter hook: ${filtered.mode}`);
+			filtered.mode = request.mode;
+		}
+
+		const expirationMinutes = parseInt(filtered.expiration_minutes);
+		filtered.expiration_minutes = expirationMinutes > 0 ? expirationMinutes : request.expiration_minutes;
+
+		return {
+			...request,
+			...filtered,
+			email: request.email,
+			registration: request.registration,
+			client_id: request.client_id
+		};
+	}
+
+	// Browsers following the link get HTML pages, API clients get JSON
+	function wantsHtml(req: Request): boolean {
+		return req.accepts(['json', 'html']) === 'html';
+	}
+
+	async function sendError(req: Request, res: Response, status: number, message: string) {
+		if (wantsHtml(req)) {
+			res.type('html');
+			return res
+				.status(status)
+				.send(renderMessagePage({ ...(await getPageContext(req)), title: t(req, 'page.failed_title'), message }));
+		}
+
+		return res.status(status).send({ success: false, message });
+	}
+
+	// A token that was already consumed may be submitted again by the same client
+	// within the grace window (double clicks, browsers re-sending the form)
+	function isGraceReplay(tokenRecord: MagicLinkRecord, req: Request): boolean {
+		if (config.graceSeconds <= 0 || !tokenRecord.used_at) return false;
 
-				// Return the tokens to the client
-				return res.send({
+		const usedAt = new Date(tokenRecord.used_at).getTime();
+
+		return (
+			Date.now() - usedAt <= config.graceSeconds * 1000 &&
+			tokenRecord.used_ip === getClientIp(req) &&
+			tokenRecord.used_user_agent === getUserAgent(req)
+		);
+	}
+
+	// Look up a token and the user it belongs to, and check the link may be used
+	// Returns null if it can't (the reason is logged, never returned to the client)
+	async function findValidToken(token: string, req: Request, input: VerificationInput): Promise<CheckedToken | null> {
+		// Look up the token in the database by its hash
+		const tokenHash = tokenHasher.hash(String(token));
+		const tokenRecord: MagicLinkRecord | undefined = await database
+			.select('*')
+			.from('extension_magic_link')
+			.where({ token: tokenHash })
+			.first();
+
+		if (!tokenRecord || !tokenHasher.matches(String(token), tokenRecord.token)) {
+			logger.debug('Token not found');
+			await recordVerification(req, null, 'failure', 'Token not found');
+			return null;
+		}
+
+		return checkTokenRecord(tokenRecord, req, input);
+	}
+
+	// Check that a token record may be used and find its user. `input` is the
+	// verification request (see shared/verification.ts)
+	// Returns null if it can't (the reason is logged, never returned to the client)
+	async function checkTokenRecord(
+		tokenRecord: MagicLinkRecord,
+		req: Request,
+		input: VerificationInput
+	): Promise<CheckedToken | null> {
+		const tokenHash = tokenRecord.token;
+
+		// Check if token is expired
+		if (new Date(tokenRecord.expires_at) < new Date()) {
+			logger.debug(`Token expired at ${tokenRecord.expires_at}`);
+			await recordVerification(req, tokenRecord, 'failure', 'Token expired');
+			return null;
+		}
+
+		// Check if token has already been used
+		if (tokenRecord.used && !isGraceReplay(tokenRecord, req)) {
+			logger.debug(`Token already used: ${tokenFingerprint(tokenHash)}`);
+			await recordVerification(req, tokenRecord, 'failure', 'Token already used');
+			return null;
+		}
+
+		// Links requested by a client can only be redeemed through that client
+		const clientId = input.client_id ?? null;
+
+		if ((tokenRecord.client ?? null) !== clientId) {
+			logger.debug(`Client mismatch for token: ${tokenFingerprint(tokenHash)}`);
+			await recordVerification(req, tokenRecord, 'failure', 'Wrong client');
+			return null;
+		}
+
+		const client = tokenRecord.client ? await clientRegistry.find(tokenRecord.client) : null;
+
+		if (tokenRecord.client && !client) {
+			logger.debug(`Client ${tokenRecord.client} no longer exists or is disabled`);
+			await recordVerification(req, tokenRecord, 'failure', 'Client disabled');
+			return null;
+		}
+
+		// Apply the email domain policy on verification too, in case it changed
+		const domainDenial = domainPolicy.check(tokenRecord.email);
+
+		if (domainDenial) {
+			logger.debug(`Magic link verification denied for ${tokenRecord.email}: ${domainDenial}`);
+			await recordVerification(req, tokenRecord, 'failure', domainDenial);
+			return null;
+		}
+
+		// Find the user associated with this token
+		const user = await findUser(tokenRecord.email);
+
+		if (!user) {
+			// Registration links create the user when they're used (see signIn)
+			if (tokenRecord.registration && canRegister(tokenRecord.email)) {
+				return { tokenRecord, user: null, client };
+			}
+
+			logger.debug(`User not found for token: ${tokenFingerprint(tokenHash)}`);
+			await recordVerification(req, tokenRecord, 'failure', 'User does not exist');
+			return null;
+		}
+
+		// Apply the user status, role and policy checks on verification too, since the
+		// user may have been suspended or moved to another role in the meantime
+		const accessDenial = (await accessPolicy.check(user, client?.allowedRoles)) ?? getTfaDenial(user);
+
+		if (accessDenial) {
+			logger.debug(`Magic link verification denied for ${user.email}: ${accessDenial}`);
+			await recordVerification(req, tokenRecord, 'failure', accessDenial);
+			return null;
+		}
+
+		return { tokenRecord, user, client };
+	}
+
+	// Mark the token as used. Only one request can flip `used`, so a link can't be
+	// redeemed twice, except for a retry by the same client within the grace window
+	async function consumeToken(tokenRecord: MagicLinkRecord, req: Request): Promise<boolean> {
+		if (tokenRecord.used) return isGraceReplay(tokenRecord, req);
+
+		const updated = await database('extension_magic_link')
+			.where({ id: tokenRecord.id, used: false })
+			.update({
+				used: true,
+				used_at: new Date(),
+				used_ip: getClientIp(req),
+				used_user_agent: getUserAgent(req)
+			});
+
+		if (updated === 1) return true;
+
+		// Another request consumed it first - allow it only if that was this client
+		const current: MagicLinkRecord | undefined = await database
+			.select('*')
+			.from('extension_magic_link')
+			.where({ id: tokenRecord.id })
+			.first();
+
+		return current !== undefined && isGraceReplay(current, req);
+	}
+
+	// Make the token usable again, e.g. when the session could not be created
+	async function releaseToken(tokenRecord: MagicLinkRecord): Promise<void> {
+		await database('extension_magic_link')
+			.where({ id: tokenRecord.id })
+			.update({ used: false, used_at: null, used_ip: null, used_user_agent: null });
+	}
+
+	// Create the user for a verified registration link, with the configured role and status
+	async function registerUser(tokenRecord: MagicLinkRecord, req: Request): Promise<MagicLinkUser> {
+		const usersService = new UsersService({ schema: req.schema, knex: database });
+
+		try {
+			await usersService.createOne({
+				email: tokenRecord.email,
+				first_name: tokenRecord.first_name,
+				last_name: tokenRecord.last_name,
+				role: config.registrationRole,
+				status: config.registrationStatus
+			});
+
+			logger.info(`Registered new user ${tokenRecord.email} through a magic link`);
+		} catch (error) {
+			// Ignore the error if the user was created in the meantime, e.g. by a parallel request
+			const existing = await database.select('id').from('directus_users').where({ email: tokenRecord.email }).first();
+			if (!existing) throw error;
+		}
+
+		const user = await findUser(tokenRecord.email);
+		if (!user) throw new Error(`Registered user ${tokenRecord.email} not found`);
+
+		return user;
+	}
+
+	// Consume a checked token and log its user in. For a cross-device request,
+	// approve it instead so the requesting device can pick up the session.
+	// `notify` lists how the browser differs from the one that requested the link,
+	// for the security notice sent after signing in. `client` is the application
+	// the link was requested by. Returns the outcome (see shared/verification.ts)
+	async function signIn(
+		req: Request,
+		input: VerificationInput,
+		tokenRecord: MagicLinkRecord,
+		user: MagicLinkUser | null,
+		mode: AuthMode,
+		{
+			crossDevice = false,
+			notify = null,
+			client = null
+		}: { crossDevice?: boolean; notify?: BindingMismatch[] | null; client?: MagicLinkClient | null } = {}
+	): Promise<VerificationOutcome> {
+		// Users with two-factor authentication need their TOTP code as well. The token
+		// isn't consumed until it's right, so the user can try again
+		if (user?.tfa_secret) {
+			const prompt = await checkTfa(req, input, tokenRecord, user);
+			if (prompt) return prompt;
+		}
+
+		if (!(await consumeToken(tokenRecord, req))) {
+			logger.debug(`Token already used: ${tokenFingerprint(tokenRecord.token)}`);
+			await recordVerification(req, tokenRecord, 'failure', 'Token already used');
+			return failure(req, 401, 'api.invalid_link');
+		}
+
+		try {
+			// First successful verification of a registration link: create the user
+			if (!user) {
+				user = await registerUser(tokenRecord, req);
+
+				// Accounts created with another status (e.g. awaiting approval) can't sign in yet
+				if (user.status !== 'active') {
+					logger.debug(`Registered user ${user.email} with status ${user.status}, not signing in`);
+					await recordVerification(req, tokenRecord, 'success', 'Registered, awaiting approval', user);
+
+					return { type: 'registered', status: 202, message: t(req, 'api.registered', {}, user), user };
+				}
+			}
+
+			if (crossDevice) {
+				await database('extension_magic_link').where({ id: tokenRecord.id }).update({ approved_at: new Date() });
+
+				logger.debug(`Cross-device sign-in approved for user: ${user.email}`);
+				await recordVerification(req, tokenRecord, 'success', 'Approved for another device', user);
+
+				return { type: 'approved', status: 200, message: t(req, 'api.approved', {}, user), user };
+			}
+
+			const tokens = await startSession(req, user, mode);
+			await recordVerification(req, tokenRecord, 'success', null, user);
+
+			if (notify) {
+				notifyBindingMismatch(req, user, notify, client).catch((error) => {
+					logger.error(`Error sending sign-in notice: ${(error as Error).message}`);
+					logger.debug((error as Error).stack);
+				});
+			}
+
+			// `next` (from magic-link-ui) goes through the same allowlist as the links
+			const redirectUrl =
+				input.next && getRedirectAllowlist(client).isAllowed(input.next)
+					? input.next
+					: client?.postLoginUrl ?? config.sessionRedirectUrl;
+
+			return {
+				type: 'signed-in',
+				status: 200,
+				user,
+				mode,
+				tokens,
+				redirectUrl,
+				// The verifier cookie has done its job
+				bindingUsed: Boolean(tokenRecord.binding)
+			};
+		} catch (authError) {
+			// If authentication fails, release the token so the link can be retried
+			logger.error(`Authentication service error: ${(authError as Error).message}`);
+			logger.debug((authError as Error).stack);
+
+			await recordVerification(req, tokenRecord, 'failure', 'Authentication error');
+
+			await releaseToken(tokenRecord);
+
+			return failure(req, 500, 'api.authentication_error');
+		}
+	}
+
+	// An error outcome with a translated message
+	function failure(req: Request, status: number, key: MessageKey): { type: 'error'; status: number; message: string } {
+		return { type: 'error', status, message: t(req, key) };
+	}
+
+	// Check the TOTP code (`otp`) of a user with two-factor authentication.
+	// Returns a prompt for it if it's missing or wrong, null if it's right
+	async function checkTfa(
+		req: Request,
+		input: VerificationInput,
+		tokenRecord: MagicLinkRecord,
+		user: MagicLinkUser
+	): Promise<VerificationOutcome | null> {
+		const otp = typeof input.otp === 'string' ? input.otp.replace(/\s/g, '') : '';
+		let error: string | null = null;
+
+		if (otp) {
+			if (!(await checkLimit('tfa', user.id, maxTfaAttemptsPerHour))) {
+				error = t(req, 'api.tfa_too_many_attempts', {}, user);
+			} else {
+				const tfaService = new TFAService({ knex: database, schema: req.schema });
+				if (await tfaService.verifyOTP(user.id, otp)) return null;
+
+				error = t(req, 'api.tfa_invalid', {}, user);
+			}
+
+			await recordVerification(req, tokenRecord, 'failure', 'Invalid two-factor code', user);
+		}
+
+		return { type: 'tfa-required', status: 401, message: error ?? t(req, 'api.tfa_required', {}, user), error, user };
+	}
+
+	// How the verifying browser differs from the one that requested the link.
+	// Cross-device links are meant to be opened elsewhere, so they're never checked
+	function getBindingMismatches(tokenRecord: MagicLinkRecord, req: Request, input: VerificationInput): BindingMismatch[] {
+		if (tokenRecord.request_id) return [];
+
+		return browserBinding.check(tokenRecord, req, getClientIp(req), getUserAgent(req), input.code_verifier);
+	}
+
+	// What to do with a link used in another browser: 'reject', 'otp' or 'notify'
+	// Asking for the code only works if the link has one
+	function getMismatchPolicy(tokenRecord: MagicLinkRecord): BindingMismatchPolicy {
+		if (browserBinding.policy === 'otp' && !(config.otpEnabled && tokenRecord.code)) return 'reject';
+
+		return browserBinding.policy;
+	}
+
+	async function rejectBindingMismatch(
+		req: Request,
+		tokenRecord: MagicLinkRecord,
+		mismatches: BindingMismatch[]
+	): Promise<VerificationOutcome> {
+		logger.debug(`Browser binding mismatch (${mismatches.join(', ')}) for token: ${tokenFingerprint(tokenRecord.token)}`);
+		await recordVerification(req, tokenRecord, 'failure', `Browser binding mismatch (${mismatches.join(', ')})`);
+
+		return failure(req, 401, 'api.binding_mismatch');
+	}
+
+	// Check the one-time code (`code`) required for a link used in another browser.
+	// Returns a prompt for it if it's missing or wrong, null if it's right
+	async function checkBindingCode(
+		req: Request,
+		input: VerificationInput,
+		tokenRecord: MagicLinkRecord,
+		user: MagicLinkUser | null
+	): Promise<VerificationOutcome | null> {
+		const code = normalizeCode(input.code);
+
+		if (code && (await checkCode(req, tokenRecord, code))) return null;
+
+		const error = code ? t(req, 'api.tfa_invalid', {}, user) : null;
+
+		return {
+			type: 'code-required',
+			status: 401,
+			message: error ?? t(req, 'api.binding_code_required', {}, user),
+			error,
+			user,
+			tfaRequired: Boolean(user?.tfa_secret)
+		};
+	}
+
+	// Tell the user their link was used in another browser than the one that requested it,
+	// through their delivery channel and in the template of the client the link was for
+	async function notifyBindingMismatch(
+		req: Request,
+		user: MagicLinkUser,
+		mismatches: BindingMismatch[],
+		client: MagicLinkClient | null
+	): Promise<void> {
+		const ipAddress = getClientIp(req);
+		const userAgent = getUserAgent(req);
+
+		emitEvent('binding-mismatch', { email: user.email, user: user.id, mismatches, ip_address: ipAddress, user_agent: userAgent }, req);
+
+		const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+
+		const recipient = await deliveryChannels.pick(user);
+
+		await deliveryChannels.sendNotice(recipient, {
+			data: {
+				name: name || user.email,
+				email: user.email,
+				ip_address: ipAddress,
+				user_agent: userAgent,
+				signed_in_at: new Date().toISOString(),
+				site_name: await getSiteName(),
+				site_url: config.publicUrl
+			},
+			template: client?.emailTemplate ?? config.emailTemplate,
+			locale: getEmailLocale(req, user),
+			from: client?.emailFrom ?? config.fromEmail
+		});
+
+		logger.debug(`Sent sign-in notice to ${user.email} (${recipient.channel}, ${mismatches.join(', ')})`);
+	}
+
+	// Create a session for the user and return its tokens
+	async function startSession(req: Request, user: VerifiedUser, mode: AuthMode): Promise<SessionTokens> {
+		const tokens = await createSession({ services, database, env }, req, user.id, mode);
+
+		// Remember the session came from a magic link, by its token, with the device
+		// details createSession stored in directus_sessions
+		try {
+			await sessionRegistry.record(
+				user.id,
+				tokens.refreshToken,
+				{ ip: req.ip ?? null, user_agent: req.get('user-agent') ?? null, origin: req.get('origin') ?? null },
+				mode,
+				new Date(Date.now() + getSessionTtl(env, mode))
+			);
+		} catch (error) {
+			logger.error(`Error recording magic link session: ${(error as Error).message}`);
+		}
+
+		logger.debug(`Authentication successful for user: ${user.email} (mode: ${mode})`);
+
+		return tokens;
+	}
+
+	// Respond with a new session according to the mode. `redirectUrl` is where a
+	// browser goes after a session mode login, `extraData` is added to the JSON response
+	function sendSession(
+		req: Request,
+		res: Response,
+		user: VerifiedUser,
+		mode: AuthMode,
+		tokens: SessionTokens,
+		{
+			redirectUrl = config.sessionRedirectUrl,
+			extraData = {}
+		}: { redirectUrl?: string; extraData?: Record<string, unknown> } = {}
+	) {
+		// Set the refresh or session cookie, like Directus' /auth/login does for this mode
+		setSessionCookie(env, req, res, mode, tokens);
+
+		// Also set token in Authorization header for this response (the session
+		// token is kept in its httpOnly cookie only)
+		if (mode !== 'session') {
+			res.setHeader('Authorization', `Bearer ${tokens.accessToken}`);
+		}
+
+		// A browser submitting the confirmation in session mode goes straight to the app
+		if (mode === 'session' && wantsHtml(req)) {
+			return res.redirect(303, redirectUrl);
+		}
+
+		// Return the tokens to the client. Like Directus, the refresh token is only
+		// part of the body in json mode, the session token never is
+		return res.send({
+			success: true,
+			message: t(req, 'api.authenticated', {}, user),
+			data: {
+				...extraData,
+				user: {
+					id: user.id,
+					email: user.email,
+					first_name: user.first_name,
+					last_name: user.last_name
+				},
+				...(mode !== 'session' && { access_token: tokens.accessToken }),
+				...(mode === 'json' && { refresh_token: tokens.refreshToken }),
+				expires: tokens.expires
+			}
+		});
+	}
+
+	// Respond to a browser or API client with the outcome of a verification
+	async function sendOutcome(req: Request, res: Response, outcome: VerificationOutcome) {
+		switch (outcome.type) {
+			case 'error':
+				return sendError(req, res, outcome.status, outcome.message);
+
+			case 'tfa-required':
+			case 'code-required': {
+				const data = outcome.type === 'tfa-required' ? { tfa_required: true } : { code_required: true };
+
+				if (!wantsHtml(req)) return res.status(401).send({ success: false, message: outcome.message, data });
+
+				// Ask again, passing on what was submitted (token or email and code, and mode)
+				const names = outcome.type === 'tfa-required'
+					? ['token', 'email', 'code', 'mode', 'client_id', 'locale']
+					: ['token', 'mode', 'client_id', 'locale'];
+
+				const fields = Object.fromEntries(
+					names.filter((name) => typeof req.body?.[name] === 'string').map((name) => [name, req.body[name]])
+				);
+
+				res.type('html');
+				return res.status(401).send(
+					renderConfirmPage({
+						...(await getPageContext(req, outcome.user)),
+						fields: outcome.type === 'tfa-required' ? fields : { mode: config.defaultMode, ...fields },
+						...(outcome.type === 'tfa-required'
+							? { action: req.path.substring(1), tfaRequired: true }
+							: { codeRequired: true, tfaRequired: outcome.tfaRequired }),
+						error: outcome.error ?? undefined
+					})
+				);
+			}
+
+			case 'registered':
+			case 'approved': {
+				if (wantsHtml(req)) {
+					const title = outcome.type === 'registered' ? 'page.registered_title' : 'page.approved_title';
+
+					res.type('html');
+					return res.status(outcome.status).send(
+						renderMessagePage({
+							...(await getPageContext(req, outcome.user)),
+							title: t(req, title, {}, outcome.user),
+							message: outcome.message
+						})
+					);
+				}
+
+				const { user } = outcome;
+
+				return res.status(outcome.status).send({
 					success: true,
-					message: 'Authentication successful',
-					data: {
-						user: {
-							id: user.id,
-							email: user.email,
-							first_name: user.first_name,
-							last_name: user.last_name
-						},
-						access_token: accessToken,
-						refresh_token: newRefreshToken,
-						expires
-					}
+					message: outcome.message,
+					data: outcome.type === 'registered'
+						? { user: { id: user.id, email: user.email }, registered: true }
+						: { approved: true }
 				});
-			} catch (authError) {
-				// If authentication fails, do NOT mark the token as used so it can be retried
-				logger.error(`Authentication service error: ${authError.message}`);
-				logger.debug(authError.stack);
+			}
+
+			case 'signed-in':
+				if (outcome.bindingUsed && req.cookies?.[BINDING_COOKIE]) {
+					res.clearCookie(BINDING_COOKIE, { path: '/' });
+				}
+
+				return sendSession(req, res, outcome.user, outcome.mode, outcome.tokens, { redirectUrl: outcome.redirectUrl });
+		}
+	}
+
+	// Verify magic link - step 1: check the token without using it
+	// Email security scanners prefetch links, so a GET must never log anyone in.
+	// Browsers get a "confirm sign-in" page, API clients a JSON challenge
+	router.get('/verify', async (req, res) => {
+		try {
+			logger.debug('Magic link verification requested');
+
+			const token = getQueryParam(req, 'token');
+			const mode = getQueryParam(req, 'mode') || config.defaultMode;
 
-				return res.status(500).send({
+			// Validate token - use generic error
+			if (!token) {
+				logger.debug('Request missing token parameter');
+				return sendError(req, res, 400, t(req, 'api.missing_token'));
+			}
+
+			if (!isAuthMode(mode)) {
+				logger.debug(`Invalid authentication mode: ${mode}`);
+				return sendError(req, res, 400, t(req, 'api.invalid_mode', { modes: AUTH_MODES.join(', ') }));
+			}
+
+			const clientId = getQueryParam(req, 'client_id');
+			const input: VerificationInput = { token, mode, ...(clientId && { client_id: clientId }) };
+
+			// Use a consistent error message for all token issues
+			const result = await findValidToken(token, req, input);
+			if (!result) return sendError(req, res, 401, t(req, 'api.invalid_link'));
+
+			// A link opened in another browser than the one that requested it
+			const mismatches = getBindingMismatches(result.tokenRecord, req, input);
+			const mismatchPolicy = mismatches.length > 0 ? getMismatchPolicy(result.tokenRecord) : null;
+
+			if (mismatchPolicy === 'reject') {
+				return sendOutcome(req, res, await rejectBindingMismatch(req, result.tokenRecord, mismatches));
+			}
+
+			if (wantsHtml(req)) {
+				res.type('html');
+				return res.send(
+					renderConfirmPage({
+						...(await getPageContext(req, result.user)),
+						fields: {
+							token,
+							mode,
+							...(result.client && { client_id: result.client.id }),
+							...(getQueryParam(req, 'locale') && { locale: getQueryParam(req, 'locale') })
+						},
+						tfaRequired: Boolean(result.user?.tfa_secret),
+						codeRequired: mismatchPolicy === 'otp'
+					})
+				);
+			}
+
+			return res.send({
+				success: true,
+				message: t(req, 'api.confirm_sign_in'),
+				data: {
+					confirmation_required: true,
+					tfa_required: Boolean(result.user?.tfa_secret),
+					code_required: mismatchPolicy === 'otp',
+					expires_at: new Date(result.tokenRecord.expires_at).toISOString()
+				}
+			});
+		} catch (error) {
+			logger.error(`Error verifying magic link: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return sendError(req, res, 500, t(req, 'api.error'));
+		}
+	});
+
+	// Verify magic link - step 2: consume the token and log the user in.
+	// Returns the outcome (see shared/verification.ts)
+	async function verifyLink(req: Request, input: VerificationInput): Promise<VerificationOutcome> {
+		try {
+			const token = input.token;
+			const mode = input.mode || config.defaultMode;
+
+			// Validate token - use generic error
+			if (!token) {
+				logger.debug('Request missing token parameter');
+				return failure(req, 400, 'api.missing_token');
+			}
+
+			if (!isAuthMode(mode)) {
+				logger.debug(`Invalid authentication mode: ${mode}`);
+				return { type: 'error', status: 400, message: t(req, 'api.invalid_mode', { modes: AUTH_MODES.join(', ') }) };
+			}
+
+			// Use a consistent error message for all token issues
+			const result = await findValidToken(token, req, input);
+			if (!result) return failure(req, 401, 'api.invalid_link');
+
+			// Links from cross-device requests approve the sign-in on the requesting device
+			const crossDevice = Boolean(result.tokenRecord.request_id);
+
+			// A link used in another browser than the one that requested it
+			const mismatches = getBindingMismatches(result.tokenRecord, req, input);
+			const mismatchPolicy = mismatches.length > 0 ? getMismatchPolicy(result.tokenRecord) : null;
+
+			if (mismatchPolicy === 'reject') return rejectBindingMismatch(req, result.tokenRecord, mismatches);
+
+			if (mismatchPolicy === 'otp') {
+				const prompt = await checkBindingCode(req, input, result.tokenRecord, result.user);
+				if (prompt) return prompt;
+			}
+
+			return await signIn(req, input, result.tokenRecord, result.user, mode, {
+				crossDevice,
+				notify: mismatchPolicy === 'notify' ? mismatches : null,
+				client: result.client
+			});
+		} catch (error) {
+			logger.error(`Error verifying magic link: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return failure(req, 500, 'api.error');
+		}
+	}
+
+	// The fields of a verification request
+	function getVerificationInput(req: Request): VerificationInput {
+		return Object.fromEntries(
+			['token', 'email', 'code', 'otp', 'mode', 'client_id', 'code_verifier']
+				.filter((name) => typeof req.body?.[name] === 'string')
+				.map((name) => [name, req.body[name]])
+		);
+	}
+
+	router.post('/verify', parseFormBody, async (req, res) => {
+		logger.debug('Magic link confirmation submitted');
+
+		return sendOutcome(req, res, await verifyLink(req, getVerificationInput(req)));
+	});
+
+	// Compare a one-time code with the one of a link, spending one of its attempts
+	// Once the attempts are used up, the link can't be used anymore either
+	async function checkCode(req: Request, tokenRecord: MagicLinkRecord, code: string): Promise<boolean> {
+		// Spend one attempt from the budget before comparing, so concurrent guesses
+		// can't exceed it
+		const spent = await database('extension_magic_link')
+			.where({ id: tokenRecord.id })
+			.where('code_attempts', '<', config.otpMaxAttempts)
+			.increment('code_attempts', 1);
+
+		if (!spent) {
+			logger.debug(`Code attempt budget exhausted for token: ${tokenFingerprint(tokenRecord.token)}`);
+			await recordVerification(req, tokenRecord, 'failure', 'Too many code attempts');
+			return false;
+		}
+
+		if (!tokenHasher.matches(codeHashInput(tokenRecord.email, code), tokenRecord.code)) {
+			logger.debug(`Wrong code for token: ${tokenFingerprint(tokenRecord.token)}`);
+			await recordVerification(req, tokenRecord, 'failure', 'Wrong code');
+
+			// Out of attempts - the link can't be used anymore either
+			if (tokenRecord.code_attempts + 1 >= config.otpMaxAttempts) {
+				await database('extension_magic_link')
+					.where({ id: tokenRecord.id, used: false })
+					.update({ used: true, email_error: 'Too many code attempts' });
+			}
+
+			return false;
+		}
+
+		return true;
+	}
+
+	// Verify a one-time code - the alternative to clicking the link, for signing in
+	// on a different device than the one the email was opened on.
+	// Returns the outcome (see shared/verification.ts)
+	async function verifyCode(req: Request, input: VerificationInput): Promise<VerificationOutcome> {
+		try {
+			if (!config.otpEnabled) {
+				return failure(req, 404, 'api.codes_disabled');
+			}
+
+			const email = input.email;
+			const code = normalizeCode(input.code);
+			const mode = input.mode || config.defaultMode;
+
+			if (!email || !code) {
+				logger.debug('Request missing email or code parameter');
+				return failure(req, 400, 'api.missing_code');
+			}
+
+			if (!isAuthMode(mode)) {
+				logger.debug(`Invalid authentication mode: ${mode}`);
+				return { type: 'error', status: 400, message: t(req, 'api.invalid_mode', { modes: AUTH_MODES.join(', ') }) };
+			}
+
+			// Only the most recent pending link for an address has a valid code,
+			// since requesting a new one supersedes the others. Addresses are compared
+			// without case, like the code hash does
+			const tokenRecord: MagicLinkRecord | undefined = await database
+				.select('*')
+				.from('extension_magic_link')
+				.whereRaw('LOWER(email) = ?', [String(email).toLowerCase()])
+				.where({ used: false })
+				.whereNotNull('code')
+				.orderBy('created_at', 'desc')
+				.first();
+
+			if (!tokenRecord) {
+				logger.debug(`No pending code for email: ${email}`);
+				await recordVerification(req, { email }, 'failure', 'No pending code');
+				return failure(req, 401, 'api.invalid_code');
+			}
+
+			if (!(await checkCode(req, tokenRecord, code))) return failure(req, 401, 'api.invalid_code');
+
+			const result = await checkTokenRecord(tokenRecord, req, input);
+			if (!result) return failure(req, 401, 'api.invalid_code');
+
+			// A code entered in another browser than the one that requested the link.
+			// The code already is what the 'otp' policy asks for
+			const mismatches = getBindingMismatches(result.tokenRecord, req, input);
+			const mismatchPolicy = mismatches.length > 0 ? getMismatchPolicy(result.tokenRecord) : null;
+
+			if (mismatchPolicy === 'reject') return rejectBindingMismatch(req, result.tokenRecord, mismatches);
+
+			return await signIn(req, input, result.tokenRecord, result.user, mode, {
+				notify: mismatchPolicy === 'notify' ? mismatches : null,
+				client: result.client
+			});
+		} catch (error) {
+			logger.error(`Error verifying magic link code: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+
+			return failure(req, 500, 'api.error');
+		}
+	}
+
+	router.post('/verify-code', parseFormBody, async (req, res) => {
+		logger.debug('Magic link code verification requested');
+
+		return sendOutcome(req, res, await verifyCode(req, getVerificationInput(req)));
+	});
+
+	// magic-link-ui requests and verifies links in-process through these
+	provideVerifier({ requestLink, verifyLink, verifyCode });
+
+	// Find the record of a cross-device request, if the secret proves the caller made it
+	async function findPollRequest(requestId: string, secret: string): Promise<PollRecord | null> {
+		const record: PollRecord | undefined = await database
+			.select('id', 'email', 'request_secret', 'approved_at', 'claimed_at')
+			.from('extension_magic_link')
+			.where({ request_id: requestId })
+			.first();
+
+		if (!record || !tokenHasher.matches(secret, record.request_secret)) return null;
+
+		return record;
+	}
+
+	// Whether an approved request can still be picked up by the requesting device
+	function isClaimable(record: PollRecord | null): boolean {
+		if (!record?.approved_at || record.claimed_at) return false;
+
+		return Date.now() - new Date(record.approved_at).getTime() <= HANDOVER_WINDOW_MS;
+	}
+
+	// Poll a cross-device request - once its link has been approved on another
+	// device, the session is handed over to the device that requested it.
+	// Until then the answer is "pending" (or "expired" once the link would have
+	// expired), whether or not a link was sent at all
+	router.get('/status/:requestId', async (req, res) => {
+		try {
+			const requestId = req.params.requestId;
+			const secret = req.get('x-magic-link-request-secret');
+			const mode = getQueryParam(req, 'mode') || config.defaultMode;
+			// Optional long-polling: wait up to this many seconds for the approval
+			const wait = Math.min(Math.max(parseInt(getQueryParam(req, 'wait') ?? '') || 0, 0), MAX_POLL_WAIT_SECONDS);
+
+			const issuedAt = getRequestIssuedAt(requestId);
+
+			if (!issuedAt || !secret) {
+				logger.debug('Status request with an invalid request ID or without secret');
+				return res.status(400).send({ success: false, message: t(req, 'api.invalid_poll_request') });
+			}
+
+			if (!isAuthMode(mode)) {
+				logger.debug(`Invalid authentication mode: ${mode}`);
+				return res.status(400).send({
 					success: false,
-					message: 'An error occurred during authentication. Please try again.'
+					message: t(req, 'api.invalid_mode', { modes: AUTH_MODES.join(', ') })
 				});
 			}
+
+			// Links of a client may last longer or shorter than the default
+			const client = await findClient(req.query?.client_id);
+			const expiresAt = issuedAt + (client?.expirationMinutes ?? config.expirationMinutes) * 60 * 1000;
+			const deadline = Date.now() + wait * 1000;
+
+			// Stop waiting when the client goes away
+			let closed = false;
+			res.on('close', () => (closed = true));
+
+			let record = await findPollRequest(requestId, secret);
+
+			while (!isClaimable(record) && !record?.claimed_at && Date.now() < Math.min(deadline, expiresAt) && !closed) {
+				await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+				record = await findPollRequest(requestId, secret);
+			}
+
+			if (closed) return;
+
+			if (record && isClaimable(record)) {
+				// Only one poll can claim the approval
+				const claimed = await database('extension_magic_link')
+					.where({ id: record.id })
+					.whereNull('claimed_at')
+					.update({ claimed_at: new Date() });
+
+				const user = claimed ? await findUser(record.email) : null;
+
+				if (user) {
+					logger.debug(`Handing over cross-device sign-in to the requesting device for ${user.email}`);
+
+					const tokens = await startSession(req, user, mode);
+					await recordVerification(req, record, 'success', null, user);
+					return sendSession(req, res, user, mode, tokens, { extraData: { status: 'approved' } });
+				}
+			}
+
+			// Claimed already (possibly by a parallel poll just now), or past its expiry
+			const status = record?.claimed_at || isClaimable(record) || Date.now() >= expiresAt ? 'expired' : 'pending';
+
+			return res.send({ success: true, data: { status } });
 		} catch (error) {
-			logger.error(`Error verifying magic link: ${error.message}`);
-			logger.debug(error.stack);
+			logger.error(`Error checking magic link request status: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
 
 			return res.status(500).send({
 				success: false,
-				message: 'An error occurred while processing your request'
+				message: t(req, 'api.error')
 			});
 		}
 	});
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+
+/**
+ * Outbox for local development and end-to-end tests
+ *
+ * With MAGIC_LINK_DELIVERY=outbox, magic links aren't sent at all: the rendered
+ * messages are kept in memory, where admins can read them through
+ * /magic-link-api/outbox. Only the newest OUTBOX_SIZE messages are kept, and
+ * they're gone after a restart. Security notices sent while it's enabled are
+ * kept there too, without a link.
+ *
+ * The outbox holds working links, so it refuses to run with NODE_ENV=production.
+ */
+
+export interface OutboxMessage {
+	id: string;
+	created_at: string;
+	// The event of the webhook channel
+	event: 'magic-link' | 'sign-in-notice';
+	to: string;
+	user: string | null;
+	subject: string;
+	link: string | null;
+	code: string | null;
+	registration: boolean;
+	expires_at: string | null;
+	locale: string;
+	// The email as it would have been sent, and the message of the SMS and webhook channels
+	html: string;
+	text: string;
+	short: string;
+}
+
+const OUTBOX_SIZE = 100;
+
+export function isOutboxAllowed(): boolean {
+	return process.env.NODE_ENV !== 'production';
+}
+
+export function createOutbox() {
+	// Newest first
+	let messages: OutboxMessage[] = [];
+
+	function add(message: Omit<OutboxMessage, 'id' | 'created_at'>): OutboxMessage {
+		const stored = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...message };
+
+		messages = [stored, ...messages].slice(0, OUTBOX_SIZE);
+
+		return stored;
+	}
+
+	/**
+	 * The messages, newest first, optionally only those sent to `email`
+	 */
+	function list(email?: string): OutboxMessage[] {
+		const address = email?.trim().toLowerCase();
+
+		return address ? messages.filter((message) => message.to.toLowerCase() === address) : messages;
+	}
+
+	function get(id: string): OutboxMessage | null {
+		return messages.find((message) => message.id === id) ?? null;
+	}
+
+	function clear(): void {
+		messages = [];
+	}
+
+	return { add, list, get, clear };
+}
+
+export type Outbox = ReturnType<typeof createOutbox>;
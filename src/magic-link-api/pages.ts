@@ -0,0 +1,197 @@
+import type { MessageKey, MessageParams } from '../shared/i18n';
+import { escapeHtml } from '../shared/utils';
+
+/**
+ * Minimal HTML pages served by the API to browsers following a magic link
+ *
+ * No JavaScript is used, so the pages work under the Directus Content Security
+ * Policy. Every interpolated value is escaped, since the token comes straight
+ * from the query string.
+ */
+
+// Translates a message into the locale of the page
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const styles = `
+	* { margin: 0; padding: 0; box-sizing: border-box; }
+	body {
+		font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+		background: #f4f5f7;
+		min-height: 100vh;
+		display: flex;
+		align-items: center;
+		justify-content: center;
+		padding: 20px;
+	}
+	.container {
+		background: white;
+		border-radius: 10px;
+		box-shadow: 0 10px 30px rgba(0,0,0,0.1);
+		padding: 40px;
+		max-width: 400px;
+		width: 100%;
+		text-align: center;
+	}
+	h1 { margin-bottom: 20px; font-size: 22px; }
+	p { color: #666; margin-bottom: 20px; }
+	input[type="text"] {
+		width: 100%;
+		padding: 12px;
+		margin-bottom: 15px;
+		border: 1px solid #ddd;
+		border-radius: 5px;
+		font-size: 18px;
+		text-align: center;
+		letter-spacing: 4px;
+	}
+	.error { color: #e74c3c; }
+	button {
+		width: 100%;
+		padding: 12px;
+		background: #667eea;
+		color: white;
+		border: none;
+		border-radius: 5px;
+		font-size: 16px;
+		font-weight: 600;
+		cursor: pointer;
+	}
+	.container.wide { max-width: 960px; text-align: left; }
+	table { width: 100%; border-collapse: collapse; font-size: 14px; }
+	th, td { padding: 8px; border-bottom: 1px solid #eee; text-align: left; vertical-align: top; }
+	code { font-size: 16px; letter-spacing: 2px; }
+	a.button {
+		display: inline-block;
+		margin: 2px 0;
+		padding: 6px 10px;
+		background: #667eea;
+		color: white;
+		border-radius: 5px;
+		text-decoration: none;
+		white-space: nowrap;
+	}
+	a.button.secondary { background: #eee; color: #333; }
+`;
+
+function createPage(title: string, siteName: string, locale: string, content: string, wide = false) {
+	return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta name="robots" content="noindex">
+	<title>${escapeHtml(title)} - ${escapeHtml(siteName)}</title>
+	<style>${styles}</style>
+</head>
+<body>
+	<div class="container${wide ? ' wide' : ''}">
+		${content}
+	</div>
+</body>
+</html>`;
+}
+
+/**
+ * The "confirm sign-in" challenge shown for GET /verify
+ *
+ * Email security scanners prefetch links but don't submit forms, so the token is
+ * only consumed once the user presses the button. Users with two-factor
+ * authentication also enter their TOTP code here, and links opened in another
+ * browser may ask for the one-time code from the email. `fields` are passed on
+ * as hidden inputs to the `action` route.
+ */
+export function renderConfirmPage(options: {
+	siteName: string;
+	locale: string;
+	t: Translate;
+	fields: Record<string, string>;
+	action?: string;
+	tfaRequired?: boolean;
+	codeRequired?: boolean;
+	error?: string;
+}) {
+	const { t } = options;
+
+	const instructions = options.codeRequired
+		? t(options.tfaRequired ? 'page.code_and_tfa_required' : 'page.code_required')
+		: t(options.tfaRequired ? 'page.tfa_required' : 'page.confirm');
+
+	const hiddenFields = Object.entries(options.fields)
+		.map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+		.join('\n\t\t\t');
+
+	return createPage(
+		t('page.confirm_title'),
+		options.siteName,
+		options.locale,
+		`
+		<h1>${escapeHtml(t('page.sign_in_to', { site_name: options.siteName }))}</h1>
+		${options.error ? `<p class="error">${escapeHtml(options.error)}</p>` : ''}
+		<p>${escapeHtml(instructions)}</p>
+		<form method="POST" action="${escapeHtml(options.action ?? 'verify')}">
+			${hiddenFields}
+			${options.codeRequired ? `<input type="text" name="code" autocomplete="off" placeholder="${escapeHtml(t('page.code_placeholder'))}" required autofocus>` : ''}
+			${options.tfaRequired ? '<input type="text" name="otp" inputmode="numeric" autocomplete="one-time-code" placeholder="123456" required autofocus>' : ''}
+			<button type="submit">${escapeHtml(t('page.sign_in'))}</button>
+		</form>
+		`
+	);
+}
+
+export function renderMessagePage(options: { siteName: string; locale: string; title: string; message: string }) {
+	return createPage(
+		options.title,
+		options.siteName,
+		options.locale,
+		`
+		<h1>${escapeHtml(options.title)}</h1>
+		<p>${escapeHtml(options.message)}</p>
+		`
+	);
+}
+
+/**
+ * The messages of the development outbox (MAGIC_LINK_DELIVERY=outbox), newest first
+ *
+ * Only admins see this page, so it isn't translated.
+ */
+export function renderOutboxPage(options: {
+	siteName: string;
+	messages: { id: string; created_at: string; to: string; subject: string; link: string | null; code: string | null }[];
+	// Path of the outbox route, for the links to the emails
+	basePath: string;
+}) {
+	const rows = options.messages
+		.map(
+			(message) => `
+			<tr>
+				<td>${escapeHtml(new Date(message.created_at).toLocaleString('en-US'))}</td>
+				<td>${escapeHtml(message.to)}</td>
+				<td>${escapeHtml(message.subject)}</td>
+				<td>${message.code ? `<code>${escapeHtml(message.code)}</code>` : ''}</td>
+				<td>
+					${message.link ? `<a class="button" href="${escapeHtml(message.link)}" target="_blank" rel="noopener noreferrer">Open link</a>` : ''}
+					<a class="button secondary" href="${escapeHtml(`${options.basePath}/${message.id}?format=html`)}" target="_blank">View email</a>
+				</td>
+			</tr>`
+		)
+		.join('');
+
+	return createPage(
+		'Outbox',
+		options.siteName,
+		'en-US',
+		`
+		<h1>Outbox</h1>
+		<p>Magic links are kept here instead of being sent (MAGIC_LINK_DELIVERY=outbox). Reload the page for new ones.</p>
+		${
+			options.messages.length
+				? `<table>
+			<tr><th>Created</th><th>To</th><th>Subject</th><th>Code</th><th></th></tr>${rows}
+		</table>`
+				: '<p>No messages yet.</p>'
+		}
+		`,
+		true
+	);
+}
@@ -0,0 +1,161 @@
+import { Redis } from 'ioredis';
+import net from 'net';
+import type { Logger } from '../shared/types';
+
+/**
+ * Sliding window rate limiting for magic link requests
+ *
+ * Counters live in a pluggable store: in memory by default, or in Redis (using
+ * the same connection settings as Directus) so that several instances share
+ * their limits. Each key keeps the timestamps of its recent hits, so a limit of
+ * 5 per hour really means 5 in any 60 minute period, not per clock hour.
+ */
+
+export interface RateLimitResult {
+	allowed: boolean;
+	count: number;
+}
+
+export interface RateLimitStore {
+	/**
+	 * Record a hit for the key and report whether it's within the limit
+	 */
+	hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+export function createMemoryStore(): RateLimitStore {
+	const hits = new Map<string, number[]>();
+
+	// Drop keys whose hits have all left their window, so memory doesn't grow unbounded
+	let longestWindow = 0;
+
+	const sweep = setInterval(() => {
+		const cutoff = Date.now() - longestWindow;
+
+		for (const [key, timestamps] of hits) {
+			if ((timestamps[timestamps.length - 1] ?? 0) <= cutoff) hits.delete(key);
+		}
+	}, 60 * 1000);
+
+	sweep.unref?.();
+
+	return {
+		async hit(key, limit, windowMs) {
+			const now = Date.now();
+			longestWindow = Math.max(longestWindow, windowMs);
+
+			const recent = (hits.get(key) ?? []).filter((timestamp) => timestamp > now - windowMs);
+			recent.push(now);
+
+			// Only the most recent `limit` hits matter for the decision
+			hits.set(key, recent.slice(-limit));
+
+			return { allowed: recent.length <= limit, count: recent.length };
+		}
+	};
+}
+
+export function createRedisStore(redis: Redis, prefix = 'magic-link:rate-limit:'): RateLimitStore {
+	return {
+		async hit(key, limit, windowMs) {
+			const now = Date.now();
+			const redisKey = `${prefix}${key}`;
+
+			const results = await redis
+				.multi()
+				.zremrangebyscore(redisKey, 0, now - windowMs)
+				.zadd(redisKey, now, `${now}-${Math.random().toString(36).slice(2)}`)
+				.zcard(redisKey)
+				.pexpire(redisKey, windowMs)
+				.exec();
+
+			const count = Number(results?.[2]?.[1] ?? 0);
+
+			return { allowed: count <= limit, count };
+		}
+	};
+}
+
+/**
+ * Create the store selected with MAGIC_LINK_RATE_LIMIT_STORE (memory | redis)
+ *
+ * The Redis store connects with MAGIC_LINK_REDIS, or the REDIS / REDIS_* settings
+ * Directus itself uses for its cache and rate limiter.
+ */
+export function createRateLimitStore(env: Record<string, any>, logger: Logger): RateLimitStore {
+	const storeType = env.MAGIC_LINK_RATE_LIMIT_STORE || 'memory';
+
+	if (storeType === 'memory') return createMemoryStore();
+
+	if (storeType === 'redis') {
+		const connection = env.MAGIC_LINK_REDIS || env.REDIS;
+
+		const redis = connection
+			? new Redis(connection)
+			: new Redis({
+					host: env.REDIS_HOST || '127.0.0.1',
+					port: parseInt(env.REDIS_PORT || '6379'),
+					username: env.REDIS_USERNAME || undefined,
+					password: env.REDIS_PASSWORD || undefined,
+					db: parseInt(env.REDIS_DB || '0')
+				});
+
+		redis.on('error', (error: Error) => logger.error(`Magic link rate limit store error: ${error.message}`));
+
+		return createRedisStore(redis);
+	}
+
+	logger.warn(`Unknown MAGIC_LINK_RATE_LIMIT_STORE "${storeType}", using the memory store`);
+	return createMemoryStore();
+}
+
+/**
+ * Expand an IPv6 address to its 8 groups of 16 bits
+ */
+function expandIPv6(address: string): number[] {
+	// Convert an embedded IPv4 tail (64:ff9b::192.0.2.1) to two hex groups
+	const ip = address.replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_match, a, b, c, d) =>
+		[(parseInt(a) << 8) | parseInt(b), (parseInt(c) << 8) | parseInt(d)].map((group) => group.toString(16)).join(':')
+	);
+
+	const [head = '', tail = ''] = ip.split('::');
+	const headGroups = head ? head.split(':') : [];
+	const tailGroups = ip.includes('::') && tail ? tail.split(':') : [];
+	const missing = 8 - headGroups.length - tailGroups.length;
+
+	return [...headGroups, ...Array(ip.includes('::') ? missing : 0).fill('0'), ...tailGroups].map((group) =>
+		parseInt(group, 16)
+	);
+}
+
+/**
+ * The network an IP address belongs to, used as the rate limit key
+ *
+ * Limiting per single address is easy to sidestep with IPv6, where every
+ * client usually has a whole /64, so addresses are grouped by prefix length.
+ */
+export function getNetworkKey(ip: string, ipv4Prefix: number, ipv6Prefix: number): string {
+	// IPv4 addresses mapped into IPv6 (::ffff:1.2.3.4) are treated as IPv4
+	const address = ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+	if (net.isIPv4(address)) {
+		const value = address.split('.').reduce((sum, octet) => sum * 256 + parseInt(octet), 0);
+		const mask = ipv4Prefix <= 0 ? 0 : 0xffffffff << (32 - Math.min(ipv4Prefix, 32));
+		const network = (value & mask) >>> 0;
+
+		return `${[network >>> 24, (network >>> 16) & 255, (network >>> 8) & 255, network & 255].join('.')}/${ipv4Prefix}`;
+	}
+
+	if (net.isIPv6(address)) {
+		const groups = expandIPv6(address);
+
+		const network = groups.map((group, index) => {
+			const bits = Math.max(0, Math.min(16, ipv6Prefix - index * 16));
+			return bits === 0 ? 0 : group & ((0xffff << (16 - bits)) & 0xffff);
+		});
+
+		return `${network.map((group) => group.toString(16)).join(':')}/${ipv6Prefix}`;
+	}
+
+	return address;
+}
@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import type { Knex } from 'knex';
+import { SESSIONS_TABLE } from '../shared/migrations';
+
+/**
+ * Registry of the Directus sessions created through magic links
+ *
+ * Each record holds a hash of the token of the directus_sessions row the sign-in
+ * created. Directus changes that token whenever the session is refreshed:
+ * - session mode starts a new row and points the old one's `next_token` at it,
+ *   which is followed here
+ * - json and cookie mode replace the token in place. The magic-link-sessions hook
+ *   calls `follow` during every refresh with the token it was made with, and only
+ *   the record of that token moves on to the row that was just given a new expiry
+ *
+ * Logging out only ever ends the sessions recorded here, never other sessions of
+ * the user on the same device.
+ */
+
+export interface MagicLinkSession {
+	id: number;
+	mode: string;
+	ip: string | null;
+	user_agent: string | null;
+	origin: string | null;
+	created_at: Date;
+	expires: Date;
+	current: boolean;
+}
+
+interface SessionRecord {
+	id: number;
+	user: string;
+	token: string;
+	mode: string;
+	ip: string | null;
+	user_agent: string | null;
+	origin: string | null;
+	created_at: Date;
+	expires_at: Date;
+}
+
+interface DirectusSession {
+	token: string;
+	next_token: string | null;
+	expires: Date;
+	ip: string | null;
+	user_agent: string | null;
+	origin: string | null;
+}
+
+type Device = Pick<SessionRecord, 'ip' | 'user_agent' | 'origin'>;
+
+// How far the expiry of a row refreshed in place may be from "now + its lifetime"
+const REFRESH_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * Hash of a session token, as stored in the registry
+ */
+export function hashSessionToken(token: string): string {
+	return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function sameDevice(a: Device, b: Device): boolean {
+	return (
+		(a.ip ?? null) === (b.ip ?? null) &&
+		(a.user_agent ?? null) === (b.user_agent ?? null) &&
+		(a.origin ?? null) === (b.origin ?? null)
+	);
+}
+
+/**
+ * `refreshTtl` is the lifetime Directus gives json and cookie mode sessions on a
+ * refresh (REFRESH_TOKEN_TTL)
+ */
+export function createSessionRegistry(database: Knex, refreshTtl: number) {
+	/**
+	 * Record a session created through a magic link, by the token createSession returned
+	 */
+	async function record(userId: string, token: string, device: Device, mode: string, expiresAt: Date): Promise<void> {
+		await database(SESSIONS_TABLE).insert({
+			user: userId,
+			token: hashSessionToken(token),
+			mode,
+			ip: device.ip ?? null,
+			user_agent: device.user_agent ?? null,
+			origin: device.origin ?? null,
+			created_at: new Date(),
+			expires_at: expiresAt
+		});
+	}
+
+	async function load(userId: string): Promise<{ records: SessionRecord[]; sessions: DirectusSession[] }> {
+		const records: SessionRecord[] = await database(SESSIONS_TABLE)
+			.select('*')
+			.where({ user: userId })
+			.orderBy('created_at', 'desc');
+
+		if (records.length === 0) return { records, sessions: [] };
+
+		const sessions: DirectusSession[] = await database('directus_sessions')
+			.select('token', 'next_token', 'expires', 'ip', 'user_agent', 'origin')
+			.where({ user: userId })
+			.where('expires', '>', new Date());
+
+		return { records, sessions };
+	}
+
+	/**
+	 * The live rows of a record: its own, and those its token was rotated to
+	 */
+	function findChain(record: SessionRecord, byHash: Map<string, DirectusSession>, byToken: Map<string, DirectusSession>) {
+		const chain: DirectusSession[] = [];
+		let session = byHash.get(record.token);
+
+		while (session && !chain.includes(session)) {
+			chain.push(session);
+			session = session.next_token ? byToken.get(session.next_token) : undefined;
+		}
+
+		return chain;
+	}
+
+	/**
+	 * Match the user's records to their live Directus sessions, moving each record to
+	 * the newest token of its session
+	 *
+	 * `refreshedFrom` is the token a session was just refreshed with in place. If its
+	 * row is gone, the record of that token is moved to the unrecorded row of the
+	 * same device that was just refreshed. Records without a live session are removed.
+	 */
+	async function sync(
+		userId: string,
+		refreshedFrom: string | null = null
+	): Promise<{ record: SessionRecord; sessions: DirectusSession[] }[]> {
+		const { records, sessions } = await load(userId);
+		if (records.length === 0) return [];
+
+		const byToken = new Map(sessions.map((session) => [session.token, session]));
+		const byHash = new Map(sessions.map((session) => [hashSessionToken(session.token), session]));
+
+		const resolved = records.map((record) => ({ record, sessions: findChain(record, byHash, byToken) }));
+
+		const previousHash = refreshedFrom ? hashSessionToken(refreshedFrom) : null;
+		const refreshed = resolved.find(
+			({ record, sessions }) => record.token === previousHash && sessions.length === 0 && record.mode !== 'session'
+		);
+
+		if (refreshed) {
+			const claimed = new Set(resolved.flatMap(({ sessions }) => sessions));
+			const refreshedSince = Date.now() + refreshTtl - REFRESH_TOLERANCE_MS;
+
+			const match = sessions
+				.filter(
+					(session) =>
+						!claimed.has(session) &&
+						!session.next_token &&
+						new Date(session.expires).getTime() >= refreshedSince &&
+						sameDevice(refreshed.record, session)
+				)
+				.sort((a, b) => new Date(b.expires).getTime() - new Date(a.expires).getTime())[0];
+
+			if (match) refreshed.sessions = [match];
+		}
+
+		for (const { record, sessions } of resolved) {
+			const current = sessions[sessions.length - 1];
+			const hash = current ? hashSessionToken(current.token) : null;
+
+			if (hash && hash !== record.token) {
+				await database(SESSIONS_TABLE).where({ id: record.id }).update({ token: hash });
+				record.token = hash;
+			}
+		}
+
+		const stale = resolved.filter(({ sessions }) => sessions.length === 0).map(({ record }) => record.id);
+		if (stale.length > 0) await database(SESSIONS_TABLE).whereIn('id', stale).delete();
+
+		return resolved.filter(({ sessions }) => sessions.length > 0);
+	}
+
+	/**
+	 * Follow the rotation of the user's session tokens; called while Directus refreshes
+	 * a session, with the token it's refreshed with if known
+	 */
+	async function follow(userId: string, refreshedFrom: string | null): Promise<void> {
+		await sync(userId, refreshedFrom);
+	}
+
+	/**
+	 * The user's live magic link sessions, newest first
+	 *
+	 * `currentToken` is the session token of the request, to flag its own session.
+	 */
+	async function list(userId: string, currentToken?: string | null): Promise<MagicLinkSession[]> {
+		const resolved = await sync(userId);
+
+		return resolved.map(({ record, sessions }) => ({
+			id: record.id,
+			mode: record.mode,
+			ip: record.ip,
+			user_agent: record.user_agent,
+			origin: record.origin,
+			created_at: record.created_at,
+			expires: new Date(Math.max(...sessions.map((session) => new Date(session.expires).getTime()))),
+			current: Boolean(currentToken) && sessions.some((session) => session.token === currentToken)
+		}));
+	}
+
+	/**
+	 * End one session; returns false if it doesn't belong to the user
+	 */
+	async function revoke(userId: string, id: number): Promise<boolean> {
+		const resolved = await sync(userId);
+		const match = resolved.find(({ record }) => Number(record.id) === id);
+
+		if (!match) return false;
+
+		await database('directus_sessions')
+			.whereIn('token', match.sessions.map((session) => session.token))
+			.delete();
+
+		await database(SESSIONS_TABLE).where({ id }).delete();
+
+		return true;
+	}
+
+	/**
+	 * End all of the user's magic link sessions, returning how many were ended
+	 */
+	async function revokeAll(userId: string): Promise<number> {
+		const resolved = await sync(userId);
+		const tokens = resolved.flatMap(({ sessions }) => sessions.map((session) => session.token));
+
+		if (tokens.length > 0) await database('directus_sessions').whereIn('token', tokens).delete();
+
+		await database(SESSIONS_TABLE).where({ user: userId }).delete();
+
+		return resolved.length;
+	}
+
+	return { record, follow, list, revoke, revokeAll };
+}
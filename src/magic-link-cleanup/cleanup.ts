@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Knex } from 'knex';
+import { getAuditColumns, type AuditRecordType } from '../magic-link-api/audit';
+import { EVENTS_TABLE, MAGIC_LINK_TABLE, SESSIONS_TABLE, STATS_TABLE } from '../shared/migrations';
+import type { Logger } from '../shared/types';
+
+/**
+ * Retention for the magic link tables
+ *
+ * Link requests and verification events older than the retention window are
+ * removed in batches. Before a batch is deleted, its records are counted per
+ * day and outcome into STATS_TABLE, and optionally appended to NDJSON files.
+ */
+
+export interface CleanupOptions {
+	retentionDays: number;
+	archivePath?: string;
+}
+
+const BATCH_SIZE = 500;
+
+const TABLES: Record<AuditRecordType, string> = {
+	attempts: MAGIC_LINK_TABLE,
+	verifications: EVENTS_TABLE
+};
+
+function toDay(value: unknown): string {
+	return new Date(value as string).toISOString().substring(0, 10);
+}
+
+/**
+ * Mark expired links that were never used as used, so nothing can redeem them anymore
+ */
+export async function expireStaleTokens(database: Knex): Promise<number> {
+	return database(MAGIC_LINK_TABLE).where({ used: false }).where('expires_at', '<', new Date()).update({ used: true });
+}
+
+/**
+ * Remove magic link session records of users who have no live Directus session left
+ */
+export async function pruneSessionRecords(database: Knex): Promise<number> {
+	const users: string[] = (await database(SESSIONS_TABLE).distinct('user')).map((row) => String(row.user));
+	if (users.length === 0) return 0;
+
+	const active = new Set(
+		(
+			await database('directus_sessions')
+				.distinct('user')
+				.whereIn('user', users)
+				.where('expires', '>', new Date())
+		).map((row) => String(row.user))
+	);
+
+	const inactive = users.filter((user) => !active.has(user));
+	if (inactive.length === 0) return 0;
+
+	return database(SESSIONS_TABLE).whereIn('user', inactive).delete();
+}
+
+/**
+ * Append records to a monthly NDJSON file per record type, e.g. magic-link-attempts-2024-01.ndjson
+ */
+async function archiveRecords(archivePath: string, type: AuditRecordType, records: Record<string, unknown>[]) {
+	const files = new Map<string, string[]>();
+
+	for (const record of records) {
+		const file = path.join(archivePath, `magic-link-${type}-${toDay(record.created_at).substring(0, 7)}.ndjson`);
+		files.set(file, [...(files.get(file) ?? []), JSON.stringify(record) + '\n']);
+	}
+
+	await fs.mkdir(archivePath, { recursive: true });
+
+	for (const [file, lines] of files) {
+		await fs.appendFile(file, lines.join(''));
+	}
+}
+
+/**
+ * Add the records' counts per day and outcome to the statistics table
+ */
+async function addToStatistics(trx: Knex.Transaction, type: AuditRecordType, records: Record<string, unknown>[]) {
+	const counts = new Map<string, { day: string; outcome: string; count: number }>();
+
+	for (const record of records) {
+		const day = toDay(record.created_at);
+		const outcome = String(record.outcome ?? 'unknown');
+		const key = `${day}:${outcome}`;
+
+		counts.set(key, { day, outcome, count: (counts.get(key)?.count ?? 0) + 1 });
+	}
+
+	for (const { day, outcome, count } of counts.values()) {
+		const updated = await trx(STATS_TABLE).where({ day, type, outcome }).increment('count', count);
+		if (!updated) await trx(STATS_TABLE).insert({ day, type, outcome, count });
+	}
+}
+
+/**
+ * Remove the records of one type created before the cutoff, returning how many were removed
+ */
+export async function purgeRecords(
+	database: Knex,
+	type: AuditRecordType,
+	cutoff: Date,
+	archivePath?: string
+): Promise<number> {
+	const table = TABLES[type];
+	let purged = 0;
+
+	while (true) {
+		const batch: Record<string, unknown>[] = await database(table)
+			.select(getAuditColumns(type))
+			.where('created_at', '<', cutoff)
+			.orderBy('id', 'asc')
+			.limit(BATCH_SIZE);
+
+		if (batch.length === 0) break;
+
+		// Archive first: if the deletion fails, the batch is archived again next time
+		// rather than lost
+		if (archivePath) await archiveRecords(archivePath, type, batch);
+
+		await database.transaction(async (trx) => {
+			await addToStatistics(trx, type, batch);
+			await trx(table)
+				.whereIn('id', batch.map((record) => record.id as number))
+				.delete();
+		});
+
+		purged += batch.length;
+
+		if (batch.length < BATCH_SIZE) break;
+	}
+
+	return purged;
+}
+
+/**
+ * Run all cleanup tasks once
+ */
+export async function runCleanup(database: Knex, logger: Logger, options: CleanupOptions): Promise<void> {
+	const expired = await expireStaleTokens(database);
+	if (expired > 0) logger.debug(`Marked ${expired} expired magic links as used`);
+
+	const pruned = await pruneSessionRecords(database);
+	if (pruned > 0) logger.debug(`Removed ${pruned} records of ended magic link sessions`);
+
+	if (options.retentionDays <= 0) return;
+
+	const cutoff = new Date(Date.now() - options.retentionDays * 24 * 60 * 60 * 1000);
+
+	for (const type of ['attempts', 'verifications'] as const) {
+		const purged = await purgeRecords(database, type, cutoff, options.archivePath);
+
+		if (purged > 0) {
+			logger.info(
+				`Removed ${purged} magic link ${type} older than ${options.retentionDays} days${options.archivePath ? ` (archived to ${options.archivePath})` : ''}`
+			);
+		}
+	}
+}
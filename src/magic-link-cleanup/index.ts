@@ -0,0 +1,40 @@
+import { defineHook } from '@directus/extensions-sdk';
+import { withLock } from '../shared/locks';
+import { runCleanup } from './cleanup';
+
+/**
+ * Magic Link Cleanup Hook
+ *
+ * Runs on MAGIC_LINK_CLEANUP_SCHEDULE (hourly by default) to mark expired,
+ * unused links as used and to remove records older than
+ * MAGIC_LINK_RETENTION_DAYS, keeping daily counts per outcome. With several
+ * Directus instances, a database lease makes sure only one of them runs it.
+ */
+export default defineHook(({ schedule }, { database, env, logger }) => {
+	// Anything but a positive whole number of days would remove every record or none
+	const configuredDays = Number(env.MAGIC_LINK_RETENTION_DAYS ?? 90);
+	const retentionDays = Number.isInteger(configuredDays) && configuredDays > 0 ? configuredDays : 90;
+
+	if (retentionDays !== configuredDays) {
+		logger.warn(`Invalid MAGIC_LINK_RETENTION_DAYS "${env.MAGIC_LINK_RETENTION_DAYS}", keeping records for 90 days`);
+	}
+
+	const cleanupSchedule = env.MAGIC_LINK_CLEANUP_SCHEDULE || '0 * * * *';
+	const archivePath = env.MAGIC_LINK_ARCHIVE_PATH || undefined;
+
+	// Long enough for any run; if an instance dies mid-run, another takes over after this
+	const leaseMs = 30 * 60 * 1000;
+
+	schedule(cleanupSchedule, async () => {
+		try {
+			const ran = await withLock(database, 'magic-link-cleanup', leaseMs, () =>
+				runCleanup(database, logger, { retentionDays, archivePath })
+			);
+
+			if (!ran) logger.debug('Magic link cleanup is already running on another instance');
+		} catch (error) {
+			logger.error(`Magic link cleanup failed: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+		}
+	});
+});
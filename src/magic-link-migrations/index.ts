@@ -0,0 +1,21 @@
+import { defineHook } from '@directus/extensions-sdk';
+import { runMigrations } from '../shared/migrations';
+
+/**
+ * Magic Link Migrations Hook
+ *
+ * Creates the extension_magic_link table on first boot and applies schema
+ * upgrades shipped with later releases, so no SQL has to be run by hand.
+ * Runs before the app starts serving requests, so the API endpoints never
+ * see a missing or outdated table.
+ */
+export default defineHook(({ init }, { database, logger }) => {
+	init('app.before', async () => {
+		try {
+			await runMigrations(database, logger);
+		} catch (error) {
+			logger.error(`Magic link migrations failed: ${(error as Error).message}`);
+			logger.debug((error as Error).stack);
+		}
+	});
+});
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { defineHook } from '@directus/extensions-sdk';
+import type { NextFunction, Request, Response } from 'express';
+import { createSessionRegistry } from '../magic-link-api/sessions';
+import { getRequestSessionToken, getSessionTtl } from '../shared/session';
+
+/**
+ * Magic Link Sessions Hook
+ *
+ * Directus gives a session a new token whenever it's refreshed. This follows the
+ * sessions created through magic links to their new token, so users can keep
+ * listing and ending them (see magic-link-api/sessions.ts).
+ */
+export default defineHook(({ filter, init }, { database, env, logger }) => {
+	const sessionRegistry = createSessionRegistry(database, getSessionTtl(env, 'json'));
+
+	// The token each refresh request is made with, for the auth.jwt filter below
+	const refreshTokens = new AsyncLocalStorage<string | null>();
+
+	init('middlewares.before', ({ app }) => {
+		// Read like Directus does: the body's refresh_token in json mode, else the cookies
+		app.post('/auth/refresh', (req: Request, _res: Response, next: NextFunction) => {
+			const token = typeof req.body?.refresh_token === 'string' ? req.body.refresh_token : getRequestSessionToken(env, req);
+
+			refreshTokens.run(token, next);
+		});
+	});
+
+	// Emitted by every refresh, after the token was replaced
+	filter('auth.jwt', async (payload, meta) => {
+		if (meta['type'] !== 'refresh' || typeof meta['user'] !== 'string') return payload;
+
+		try {
+			await sessionRegistry.follow(meta['user'], refreshTokens.getStore() ?? null);
+		} catch (error) {
+			// Never let the registry break a refresh
+			logger.error(`Error following magic link session: ${(error as Error).message}`);
+		}
+
+		return payload;
+	});
+});
@@ -0,0 +1,46 @@
+import { defineHook } from '@directus/extensions-sdk';
+import { SETTINGS_TABLE } from '../shared/migrations';
+import { createSettingsStore, invalidateSettings } from '../shared/settings';
+
+/**
+ * Error Directus reports to the client as a 400, like its own validation errors
+ *
+ * Directus recognizes its errors by name, status and code; the errors package
+ * that creates them isn't available to extensions.
+ */
+class InvalidSettingsError extends Error {
+	name = 'DirectusError';
+	status = 400;
+	code = 'INVALID_PAYLOAD';
+	extensions: { reason: string };
+
+	constructor(reason: string) {
+		super(`Invalid payload. ${reason}.`);
+		this.extensions = { reason };
+	}
+}
+
+/**
+ * Magic Link Settings Hook
+ *
+ * Validates changes to the extension_magic_link_settings singleton before they're
+ * saved - including attempts to change settings pinned by MAGIC_LINK_LOCKED_SETTINGS -
+ * and makes the API pick up saved settings right away instead of after its cache
+ * runs out.
+ */
+export default defineHook(({ filter, action }, { database, env, logger }) => {
+	const settingsStore = createSettingsStore(database, env, logger);
+
+	function validate(payload: Record<string, unknown>) {
+		const errors = settingsStore.validate(payload);
+		if (errors.length > 0) throw new InvalidSettingsError(errors.join('; '));
+
+		return payload;
+	}
+
+	filter(`${SETTINGS_TABLE}.items.create`, (payload) => validate(payload as Record<string, unknown>));
+	filter(`${SETTINGS_TABLE}.items.update`, (payload) => validate(payload as Record<string, unknown>));
+
+	action(`${SETTINGS_TABLE}.items.create`, () => invalidateSettings());
+	action(`${SETTINGS_TABLE}.items.update`, () => invalidateSettings());
+});
@@ -1,4 +1,33 @@
 import { defineEndpoint } from '@directus/extensions-sdk';
+import type { Request, Response } from 'express';
+import { parseFormBody } from '../shared/form-body';
+import { createTranslator, type MessageKey, type MessageParams } from '../shared/i18n';
+import { withQueryParams } from '../shared/redirects';
+import { getCookieOptions, getRequestSessionToken, setSessionCookie } from '../shared/session';
+import { createSettingsStore } from '../shared/settings';
+import { createCodeChallenge, generateToken } from '../shared/tokens';
+import { toBoolean } from '../shared/utils';
+import { getVerifier, type VerificationOutcome } from '../shared/verification';
+import { createPageRenderer, getTheme, renderStylesheet, type PageName } from './pages';
+
+// What a successful verification returns (see shared/verification.ts)
+type SignedInOutcome = Extract<VerificationOutcome, { type: 'signed-in' }>;
+
+// A verification outcome as the result pages use it, shaped like the JSON
+// responses of POST /magic-link-api/verify
+interface VerificationResponse {
+	success: boolean;
+	message: string;
+	data?: {
+		user?: Pick<SignedInOutcome['user'], 'id' | 'email' | 'first_name' | 'last_name'>;
+		access_token?: SignedInOutcome['tokens']['accessToken'];
+		expires?: SignedInOutcome['tokens']['expires'];
+		tfa_required?: boolean;
+		code_required?: boolean;
+		approved?: boolean;
+		registered?: boolean;
+	};
+}
 
 /**
  * Magic Link UI Demo Endpoint
@@ -6,21 +35,34 @@ import { defineEndpoint } from '@directus/extensions-sdk';
  * This endpoint provides a complete demo of the magic link authentication flow
  * without requiring JavaScript (to avoid CSP issues in Directus).
  * 
- * IMPORTANT: This is a demo/example implementation. It does NOT integrate with 
+ * IMPORTANT: By default this is a demo/example implementation. It does NOT integrate with 
  * Directus Data Studio due to Content Security Policy (CSP) restrictions and 
  * session context limitations. Instead, it demonstrates how to implement magic 
  * link authentication in your own custom frontend.
  * 
+ * With MAGIC_LINK_UI_MODE=production it is a hosted login page instead: links
+ * and codes are verified in-process, the Directus session cookie is set on the
+ * browser and the user is redirected to `next` or the post-login URL.
+ * 
  * Routes:
  * - GET  /             - Shows the email request form
  * - POST /send        - Processes form submission and sends magic link
- * - GET  /verify      - Verifies the magic link token and shows user info
+ * - GET  /verify      - Asks the user to confirm the sign-in (safe for link scanners)
+ * - POST /verify      - Verifies the magic link token and shows user info (or signs in)
+ * - POST /verify-code - Verifies the one-time code from the email (if enabled)
+ * - GET  /account     - Shows the signed-in user
+ * - POST /logout      - Ends the session of this browser
+ * - GET  /theme.css   - The stylesheet of all pages
+ * 
+ * The pages are Liquid templates (see pages.ts) that can be replaced one by one
+ * with files in MAGIC_LINK_UI_TEMPLATES_PATH, and themed with the MAGIC_LINK_UI_*
+ * settings.
  * 
  * HOW TO ADAPT THIS FOR YOUR CUSTOM FRONTEND:
  * 
  * 1. For a JavaScript-based frontend (React, Vue, etc.):
  *    - Replace the HTML forms with API calls to /magic-link-api/generate
- *    - Handle the verification by calling /magic-link-api/verify
+ *    - Handle the verification by calling POST /magic-link-api/verify
  *    - Store the returned tokens (access_token, refresh_token) appropriately
  * 
  * 2. For server-side rendered apps (Next.js, Nuxt, etc.):
@@ -29,123 +71,136 @@ import { defineEndpoint } from '@directus/extensions-sdk';
  * 
  * 3. Required environment variables (set in Directus):
  *    - PUBLIC_URL: Your Directus instance URL (e.g., https://example.com/server)
- *    - DIRECTUS_INTERNAL_URL: Internal URL for server-to-server calls (bypasses proxy)
  *    - Plus all the email configuration variables (see README)
+ *
+ * The demo calls magic-link-api in-process rather than over HTTP, so links are
+ * requested and verified with the browser's own IP address, user agent and cookies.
  */
-export default defineEndpoint((router, { services, database, env, logger }) => {
+export default defineEndpoint((router, { services, database, env, logger, getSchema }) => {
 	// Configuration
 	const config = {
 		// PUBLIC_URL is used for links that users will click (goes through proxy if needed)
 		publicUrl: env.PUBLIC_URL || 'http://localhost:8055',
-		
-		// DIRECTUS_INTERNAL_URL is used for server-to-server API calls
-		// This bypasses any proxy (like NGINX) for direct communication
-		// Example: If NGINX forwards example.com/server -> directus:8056
-		// Then PUBLIC_URL = https://example.com/server
-		// And DIRECTUS_INTERNAL_URL = http://directus:8056 (or http://172.x.x.x:8056)
-		internalUrl: env.DIRECTUS_INTERNAL_URL || env.PUBLIC_URL || 'http://localhost:8055',
-		
-		// Optional: Add custom branding
-		siteName: env.MAGIC_LINK_SITE_NAME || 'Magic Link Demo',
-		primaryColor: '#667eea',
-		linkExpiryMinutes: env.MAGIC_LINK_EXPIRATION_MINUTES || '15',
+
+		// Optional: replace pages with your own templates (login.liquid, sent.liquid, ...)
+		templatesPath: env.MAGIC_LINK_UI_TEMPLATES_PATH,
+
+		// One-time codes (see MAGIC_LINK_OTP_* in the README)
+		otpEnabled: toBoolean(env.MAGIC_LINK_OTP_ENABLED) ?? false,
+		otpFormat: env.MAGIC_LINK_OTP_FORMAT || 'numeric',
+
+		// Tie links to the browser that requested them (see MAGIC_LINK_BINDING in the README)
+		bindingEnabled: toBoolean(env.MAGIC_LINK_BINDING) ?? false,
+
+		// Production mode signs the browser in after verification, instead of showing
+		// the demo's result page (see MAGIC_LINK_UI_MODE in the README)
+		production: env.MAGIC_LINK_UI_MODE === 'production',
 	};
 
-	// Shared CSS styles for all pages
-	// Developers can extract and customize these styles for their own design
-	const sharedStyles = `
-		* { margin: 0; padding: 0; box-sizing: border-box; }
-		body {
-			font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
-			background: linear-gradient(135deg, ${config.primaryColor} 0%, #764ba2 100%);
-			min-height: 100vh;
-			display: flex;
-			align-items: center;
-			justify-content: center;
-			padding: 20px;
-		}
-		.container {
-			background: white;
-			border-radius: 10px;
-			box-shadow: 0 20px 60px rgba(0,0,0,0.3);
-			padding: 40px;
-			max-width: 400px;
-			width: 100%;
-			text-align: center;
-		}
-		h1 {
-			margin-bottom: 20px;
-			font-size: 24px;
-		}
-		p {
-			color: #666;
-			margin-bottom: 20px;
-		}
-		a {
-			display: inline-block;
-			padding: 12px 24px;
-			background: linear-gradient(135deg, ${config.primaryColor} 0%, #764ba2 100%);
-			color: white;
-			text-decoration: none;
-			border-radius: 5px;
-			font-weight: 600;
-		}
-		a:hover {
-			transform: translateY(-1px);
-			box-shadow: 0 4px 12px rgba(102, 126, 234, 0.4);
-		}
-	`;
+	const baseUrl = `${config.publicUrl}/magic-link-ui`;
+
+	// The verifier of the link requested from this browser. The API only gets its
+	// code challenge with the request, and the verifier itself on verification
+	const VERIFIER_COOKIE = 'magic_link_ui_verifier';
+
+	// Branding (site name, theme) and link expiry come from the same runtime
+	// settings as the API, with the environment variables as defaults
+	const settingsStore = createSettingsStore(database, env, logger);
+
+	const pageRenderer = createPageRenderer({ templatesPath: config.templatesPath });
+
+	// Same catalogs as the API, including the overrides in MAGIC_LINK_LOCALES_PATH
+	const translator = createTranslator({
+		localesPath: env.MAGIC_LINK_LOCALES_PATH,
+		defaultLocale: env.MAGIC_LINK_DEFAULT_LOCALE,
+		logger
+	});
 
 	/**
-	 * Helper function to create a complete HTML page
-	 * This avoids inline JavaScript which would be blocked by CSP
+	 * Locale of a page: an explicit `locale` parameter, else the browser's languages
+	 *
+	 * An explicit locale is kept in the forms and links of the pages, and passed
+	 * on to the API so its messages (and emails to users without a language of
+	 * their own) match.
 	 */
-	function createHTMLPage(title: string, content: string, additionalStyles: string = '') {
-		return `
-			<!DOCTYPE html>
-			<html lang="en">
-			<head>
-				<meta charset="UTF-8">
-				<meta name="viewport" content="width=device-width, initial-scale=1.0">
-				<title>${title} - ${config.siteName}</title>
-				<style>
-					${sharedStyles}
-					${additionalStyles}
-				</style>
-			</head>
-			<body>
-				<div class="container">
-					${content}
-				</div>
-			</body>
-			</html>
-		`;
+	function getLocale(req: Request) {
+		const explicit = req.body?.locale ?? req.query?.locale;
+		const locale = translator.resolve(explicit, translator.negotiate(req.headers['accept-language']));
+		const t = (key: MessageKey, params?: MessageParams) => translator.translate(locale, key, params);
+
+		return { locale, t, explicit: Boolean(explicit) };
 	}
 
 	/**
-	 * Middleware to parse URL-encoded form data
-	 * This is needed because Directus doesn't parse form data by default
-	 * 
-	 * DEVELOPER NOTE: If you're building a JavaScript frontend, you won't need this.
-	 * Instead, you'll send JSON data directly to the API endpoints.
+	 * Where to go after signing in: the `next` parameter as an absolute URL, or ''
+	 *
+	 * Paths are relative to PUBLIC_URL. Only production mode follows it, and only
+	 * if the redirect allowlist of the API allows it.
 	 */
-	router.use('/send', (req, res, next) => {
-		if (req.headers['content-type'] === 'application/x-www-form-urlencoded') {
-			let body = '';
-			req.on('data', chunk => {
-				body += chunk.toString();
-			});
-			req.on('end', () => {
-				const parsed = new URLSearchParams(body);
-				req.body = {};
-				for (const [key, value] of parsed) {
-					req.body[key] = value;
-				}
-				next();
+	function getNext(req: Request): string {
+		const next = req.body?.next ?? req.query?.next;
+		if (typeof next !== 'string' || !next) return '';
+
+		try {
+			const url = new URL(next, config.publicUrl);
+			return /^https?:$/.test(url.protocol) ? url.toString() : '';
+		} catch {
+			return '';
+		}
+	}
+
+	/**
+	 * Render a page with the theme, translations and locale of the request
+	 *
+	 * `data` holds the page's own variables (see pages.ts); all of them are
+	 * HTML-escaped by the templates.
+	 */
+	async function sendPage(req: Request, res: Response, page: PageName, data: Record<string, unknown>, status = 200) {
+		const { locale, explicit } = getLocale(req);
+
+		try {
+			const settings = await settingsStore.get();
+
+			const html = await pageRenderer.render(page, {
+				site_name: settings.site_name || 'Magic Link Demo',
+				locale,
+				locale_param: explicit ? locale : '',
+				messages: translator.messages(locale, 'ui', { minutes: settings.expiration_minutes }),
+				base_url: baseUrl,
+				home_url: explicit ? `${baseUrl}?locale=${encodeURIComponent(locale)}` : baseUrl,
+				next: getNext(req),
+				theme: getTheme(settings),
+				...data
 			});
-		} else {
-			next();
+
+			res.type('html');
+			return res.status(status).send(html);
+		} catch (error) {
+			logger.error(`Error rendering magic-link-ui page ${page}: ${(error as Error).message}`);
+
+			res.type('text/plain');
+			return res.status(500).send('The page could not be rendered');
 		}
+	}
+
+	// Parse the URL-encoded bodies of the HTML forms below
+	router.use('/send', parseFormBody);
+	router.use('/verify', parseFormBody);
+	router.use('/verify-code', parseFormBody);
+	router.use('/logout', parseFormBody);
+
+	/**
+	 * GET /theme.css - The stylesheet of all pages, with the theme colors and custom CSS
+	 *
+	 * Served as a file rather than inline, so the pages need no 'unsafe-inline'
+	 * in the Content Security Policy.
+	 */
+	router.get('/theme.css', async (_req, res) => {
+		const settings = await settingsStore.get();
+
+		res.type('text/css');
+		res.set('Cache-Control', 'public, max-age=60');
+		res.send(renderStylesheet(getTheme(settings)));
 	});
 
 	/**
@@ -154,83 +209,12 @@ export default defineEndpoint((router, { services, database, env, logger }) => {
 	 * DEVELOPER NOTE: In your custom frontend, this would be your login page.
 	 * You can copy the HTML structure and adapt it to your framework.
 	 */
-	router.get('/', (_req, res) => {
-		// Page-specific styles
-		const additionalStyles = `
-			input[type="email"] {
-				width: 100%;
-				padding: 12px 16px;
-				border: 2px solid #e1e8ed;
-				border-radius: 5px;
-				font-size: 16px;
-				margin-bottom: 20px;
-				transition: border-color 0.3s;
-			}
-			input[type="email"]:focus {
-				outline: none;
-				border-color: ${config.primaryColor};
-			}
-			button {
-				width: 100%;
-				padding: 12px;
-				background: linear-gradient(135deg, ${config.primaryColor} 0%, #764ba2 100%);
-				color: white;
-				border: none;
-				border-radius: 5px;
-				font-size: 16px;
-				font-weight: 600;
-				cursor: pointer;
-				transition: transform 0.2s;
-			}
-			button:hover {
-				transform: translateY(-2px);
-			}
-			.info {
-				background: #f0f8ff;
-				border-left: 4px solid ${config.primaryColor};
-				padding: 15px;
-				margin-top: 30px;
-				border-radius: 5px;
-			}
-			.info h2 {
-				color: #333;
-				font-size: 16px;
-				margin-bottom: 10px;
-			}
-			.info p {
-				text-align: left;
-				font-size: 13px;
-				margin-bottom: 5px;
-			}
-		`;
-
-		// The HTML form that posts to /send
-		// In a React/Vue app, you'd replace this with a component that calls the API
-		const content = `
-			<h1>🔐 ${config.siteName}</h1>
-			<p>Enter your email to receive a secure login link</p>
-			
-			<form method="POST" action="${config.publicUrl}/magic-link-ui/send">
-				<input 
-					type="email" 
-					name="email" 
-					placeholder="your@email.com" 
-					required
-					autocomplete="email"
-				/>
-				<button type="submit">Send Magic Link</button>
-			</form>
-			
-			<div class="info">
-				<h2>ℹ️ How it works</h2>
-				<p>1. Enter your email address</p>
-				<p>2. Check your inbox for a magic link</p>
-				<p>3. Click the link to verify your identity</p>
-			</div>
-		`;
-
-		res.type('html');
-		res.send(createHTMLPage('Login', content, additionalStyles));
+	router.get('/', (req, res) => {
+		const { t } = getLocale(req);
+
+		// The form posts to /send; in a React/Vue app, you'd replace it with a
+		// component that calls the API
+		return sendPage(req, res, 'login', { title: t('ui.login_title'), signed_out: req.query?.signed_out === 'true' });
 	});
 
 	/**
@@ -255,242 +239,429 @@ export default defineEndpoint((router, { services, database, env, logger }) => {
 	 */
 	router.post('/send', async (req, res) => {
 		const email = req.body?.email;
+		const next = getNext(req);
+		const { t } = getLocale(req);
 		
 		try {
-			// Server-to-server call to the magic link API
-			// We use internalUrl here to bypass any proxy
-			const response = await fetch(`${config.internalUrl}/magic-link-api/generate`, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify({
-					email: email,
-					// The redirectUrl tells the API where the verification link should point
-					// You can customize this to point to your own verification page
-					redirectUrl: `${config.publicUrl}/magic-link-ui/verify`
-				}),
+			const api = getMagicLinkApi();
+			const settings = await settingsStore.get();
+
+			// Keep a verifier in this browser, so the link only works here
+			let codeChallenge: string | undefined;
+
+			if (config.bindingEnabled) {
+				const verifier = generateToken();
+				codeChallenge = createCodeChallenge(verifier);
+
+				res.cookie(VERIFIER_COOKIE, verifier, {
+					httpOnly: true,
+					secure: config.publicUrl.startsWith('https://'),
+					sameSite: 'lax',
+					maxAge: settings.expiration_minutes * 60 * 1000,
+					path: '/magic-link-ui'
+				});
+			}
+
+			// Request the link from the magic link API, in-process so it's recorded and
+			// rate limited with this browser's IP address and user agent. The API takes
+			// the locale of its message and the email from this request
+			const outcome = await api.requestLink(req, res, {
+				email: typeof email === 'string' ? email : undefined,
+				// The redirectUrl tells the API where the verification link should point
+				// You can customize this to point to your own verification page
+				// The `next` parameter rides along, so it's still there when the link is opened
+				redirectUrl: next ? withQueryParams(`${baseUrl}/verify`, { next }) : `${baseUrl}/verify`,
+				...(codeChallenge && { code_challenge: codeChallenge })
+			});
+
+			if (outcome.type === 'error') {
+				return sendPage(req, res, 'error', {
+					title: t('ui.send_failed_title'),
+					message: outcome.message || t('ui.send_failed'),
+					link_label: t('ui.try_again')
+				});
+			}
+
+			// When codes are enabled, the email also contains a code that can be typed in here,
+			// for users who read their email on another device
+			return sendPage(req, res, 'sent', {
+				title: t('ui.sent_page_title'),
+				message: outcome.message,
+				email,
+				code_enabled: config.otpEnabled,
+				code_inputmode: config.otpFormat === 'numeric' ? 'numeric' : 'text'
 			});
-			
-			const data = await response.json();
-			
-			// Show success or error message
-			const content = data.success ? `
-				<h1 style="color: #27ae60;">✉️ Check Your Email</h1>
-				<p>${data.message || 'A magic link has been sent to your email address.'}</p>
-				<p style="font-size: 14px; color: #999;">The link will expire in ${config.linkExpiryMinutes} minutes.</p>
-				<a href="${config.publicUrl}/magic-link-ui">Send another link</a>
-			` : `
-				<h1 style="color: #e74c3c;">⚠️ Something went wrong</h1>
-				<p>${data.message || 'Could not send magic link. Please try again.'}</p>
-				<a href="${config.publicUrl}/magic-link-ui">Try again</a>
-			`;
-			
-			res.type('html');
-			res.send(createHTMLPage('Magic Link Sent', content));
 		} catch (error) {
 			logger.error('Error calling magic link API:', error);
-			
-			const content = `
-				<h1 style="color: #e74c3c;">⚠️ Error</h1>
-				<p>An error occurred: ${error.message}</p>
-				<a href="${config.publicUrl}/magic-link-ui">Go back</a>
-			`;
-			
-			res.type('html');
-			res.status(500).send(createHTMLPage('Error', content));
+
+			return sendPage(req, res, 'error', {
+				title: t('ui.error_title'),
+				message: t('ui.error', { message: (error as Error).message }),
+				link_label: t('ui.go_back')
+			}, 500);
 		}
 	});
 
+	// The link requests and verification of magic-link-api, called in-process
+	function getMagicLinkApi() {
+		const api = getVerifier();
+		if (!api) throw new Error('The magic-link-api endpoint is not loaded');
+
+		return api;
+	}
+
 	/**
-	 * GET /verify - Verify magic link token and display user information
-	 * 
+	 * Verify through magic-link-api in-process
+	 *
+	 * In production mode, the session it creates is set on this browser's response:
+	 * on success the browser is signed in and redirected, and null is returned.
+	 * Other outcomes, and all of them in demo mode, are returned like the API's
+	 * JSON responses.
+	 */
+	async function verifyInProcess(
+		req: Request,
+		res: Response,
+		apiPath: string,
+		input: Record<string, string>
+	): Promise<VerificationResponse | null> {
+		const api = getMagicLinkApi();
+		const { t } = getLocale(req);
+
+		const verify = apiPath === '/magic-link-api/verify-code' ? api.verifyCode : api.verifyLink;
+		const next = getNext(req);
+		const outcome = await verify(req, config.production ? { ...input, mode: 'session', ...(next && { next }) } : input);
+
+		switch (outcome.type) {
+			case 'signed-in': {
+				res.clearCookie(VERIFIER_COOKIE, { path: '/magic-link-ui' });
+
+				if (!config.production) {
+					const { user, tokens } = outcome;
+
+					return {
+						success: true,
+						message: t('api.authenticated'),
+						data: {
+							user: { id: user.id, email: user.email, first_name: user.first_name, last_name: user.last_name },
+							access_token: tokens.accessToken,
+							expires: tokens.expires
+						}
+					};
+				}
+
+				setSessionCookie(env, req, res, outcome.mode, outcome.tokens);
+				res.redirect(303, outcome.redirectUrl);
+				return null;
+			}
+			case 'tfa-required':
+				return { success: false, message: outcome.message, data: { tfa_required: true } };
+			case 'code-required':
+				return { success: false, message: outcome.message, data: { code_required: true } };
+			case 'approved':
+				return { success: true, message: outcome.message, data: { approved: true } };
+			case 'registered':
+				return { success: true, message: outcome.message, data: { registered: true } };
+			default:
+				return { success: false, message: outcome.message };
+		}
+	}
+
+	/**
+	 * Verify a token or code through the API and render the result page
+	 *
+	 * Shared by the link (POST /verify) and code (POST /verify-code) flows, which
+	 * both get the same response from the API. `secrets` are sent along, but never
+	 * put into a page.
+	 */
+	async function verifyAndRender(
+		req: Request,
+		res: Response,
+		apiPath: string,
+		payload: Record<string, string>,
+		secrets: Record<string, string> = {}
+	) {
+		const { t } = getLocale(req);
+
+		try {
+			const data = await verifyInProcess(req, res, apiPath, { ...payload, ...secrets });
+
+			// Signed in and redirected (production mode)
+			if (!data) return;
+
+			return renderVerification(req, res, apiPath, payload, data);
+		} catch (error) {
+			// Verification failed - show error
+			return sendPage(req, res, 'verify-failure', {
+				title: t('ui.verify_failed_title'),
+				message: (error as Error).message || t('ui.verify_failed'),
+				link_label: t('ui.request_new_link')
+			}, 400);
+		}
+	}
+
+	/**
+	 * Render the page for a verification response of the API
+	 */
+	function renderVerification(
+		req: Request,
+		res: Response,
+		apiPath: string,
+		payload: Record<string, string>,
+		data: VerificationResponse
+	) {
+		const { t } = getLocale(req);
+
+		// The link is used up, and so is its verifier
+		if (data.success) res.clearCookie(VERIFIER_COOKIE, { path: '/magic-link-ui' });
+
+		// The link was opened in another browser and the code from the email is
+		// needed too, or the user has two-factor authentication and their TOTP code
+		// is: ask for it and submit everything again
+		if (data.data?.code_required || data.data?.tfa_required) {
+			const askFor = data.data.code_required ? 'code' : 'otp';
+
+			return sendPage(req, res, 'prompt', {
+				title: t(askFor === 'code' ? 'ui.code_title' : 'ui.tfa_title'),
+				message: data.message,
+				action: `${config.publicUrl}${apiPath.replace('/magic-link-api/', '/magic-link-ui/')}`,
+				ask_for: askFor,
+				fields: Object.entries(payload)
+					.filter(([name]) => name !== askFor)
+					.map(([name, value]) => ({ name, value }))
+			}, 401);
+		}
+
+		// The link belonged to a cross-device request: the session goes to the
+		// device that polls /magic-link-api/status, not to this browser
+		if (data.success && data.data?.approved) {
+			return sendPage(req, res, 'verify-success', {
+				title: t('ui.signed_in_title'),
+				message: data.message,
+				approved: true
+			});
+		}
+
+		// A registration link created an account that isn't active yet
+		if (data.success && data.data?.registered) {
+			return sendPage(req, res, 'verify-success', {
+				title: t('page.registered_title'),
+				message: data.message,
+				approved: true
+			}, 202);
+		}
+
+		if (data.success && data.data?.user) {
+			// Success - show user information
+			// In a real app, you'd use the tokens to maintain the session (production
+			// mode does, and redirects instead of showing this page).
+			// In production, you wouldn't show tokens, but this is helpful for debugging
+			return sendPage(req, res, 'verify-success', {
+				title: t('ui.verified_page_title'),
+				message: data.message,
+				approved: false,
+				user: data.data.user,
+				access_token: data.data.access_token ? `${data.data.access_token.substring(0, 20)}...` : null,
+				expires_in: data.data.expires ? t('ui.minutes', { minutes: Math.round(data.data.expires / 1000 / 60) }) : null
+			});
+		}
+
+		// Verification failed - show error
+		return sendPage(req, res, 'verify-failure', {
+			title: t('ui.verify_failed_title'),
+			message: data.message || t('ui.verify_failed'),
+			link_label: t('ui.request_new_link')
+		}, 400);
+	}
+
+	// Shown when a link or form arrives without its token
+	function sendInvalidLink(req: Request, res: Response) {
+		const { t } = getLocale(req);
+
+		return sendPage(req, res, 'verify-failure', {
+			title: t('ui.invalid_link_title'),
+			message: t('ui.verify_failed'),
+			link_label: t('ui.request_link')
+		}, 400);
+	}
+
+	/**
+	 * GET /verify - Ask the user to confirm the sign-in
+	 *
+	 * Magic links are single use, and email security scanners open every link in
+	 * a message before the user does. So the link only shows a button; the token
+	 * is used when the form is submitted (POST /verify below).
+	 *
+	 * DEVELOPER NOTE: In a JavaScript frontend, you would show a "Sign in" button
+	 * on your verify page and call POST /magic-link-api/verify when it's clicked.
+	 */
+	router.get('/verify', (req, res) => {
+		const token = req.query?.token as string;
+		// Links requested for a client carry its ID, which the API checks on verification
+		const clientId = req.query?.client_id as string | undefined;
+		const { t } = getLocale(req);
+
+		// No token provided - show error
+		if (!token) return sendInvalidLink(req, res);
+
+		return sendPage(req, res, 'confirm', { title: t('ui.confirm_title'), token, client_id: clientId });
+	});
+
+	/**
+	 * POST /verify - Verify magic link token and display user information
+	 *
 	 * DEVELOPER NOTE: In a JavaScript frontend, you would:
 	 * 1. Extract the token from the URL
-	 * 2. Call GET /magic-link-api/verify?token=xxx
+	 * 2. Call POST /magic-link-api/verify with the token once the user confirms
 	 * 3. Store the returned tokens (access_token, refresh_token)
 	 * 4. Redirect to your app's dashboard
-	 * 
+	 *
 	 * Example JavaScript code:
 	 * ```javascript
 	 * const urlParams = new URLSearchParams(window.location.search);
 	 * const token = urlParams.get('token');
-	 * 
-	 * const response = await fetch(`/magic-link-api/verify?token=${token}`);
+	 *
+	 * const response = await fetch('/magic-link-api/verify', {
+	 *   method: 'POST',
+	 *   headers: { 'Content-Type': 'application/json' },
+	 *   body: JSON.stringify({ token })
+	 * });
 	 * const data = await response.json();
-	 * 
+	 *
 	 * if (data.success) {
 	 *   // Store tokens (cookies, localStorage, or state management)
 	 *   localStorage.setItem('access_token', data.data.access_token);
-	 *   // Note: refresh_token is usually set as HTTP-only cookie by the API
-	 *   
+	 *
 	 *   // Redirect to dashboard
 	 *   window.location.href = '/dashboard';
 	 * }
 	 * ```
 	 */
-	router.get('/verify', async (req, res) => {
-		const token = req.query?.token as string;
-		
+	router.post('/verify', async (req, res) => {
+		const token = req.body?.token as string;
+
 		// No token provided - show error
-		if (!token) {
-			const content = `
-				<h1 style="color: #e74c3c;">❌ Invalid Link</h1>
-				<p>This magic link is invalid or has expired.</p>
-				<a href="${config.publicUrl}/magic-link-ui">Request a new link</a>
-			`;
-			
-			res.type('html');
-			return res.status(400).send(createHTMLPage('Invalid Link', content));
+		if (!token) return sendInvalidLink(req, res);
+
+		// Verify the token through the magic link API, in-process
+		// The API will return user data and authentication tokens. The verifier
+		// cookie proves this is the browser that requested the link
+		const otp = req.body?.otp as string | undefined;
+		const code = req.body?.code as string | undefined;
+		const clientId = req.body?.client_id as string | undefined;
+		const verifier = req.cookies?.[VERIFIER_COOKIE] as string | undefined;
+
+		return verifyAndRender(
+			req,
+			res,
+			'/magic-link-api/verify',
+			{ token, ...(clientId && { client_id: clientId }), ...(code && { code }), ...(otp && { otp }) },
+			verifier ? { code_verifier: verifier } : {}
+		);
+	});
+
+	/**
+	 * POST /verify-code - Verify the one-time code from the email
+	 *
+	 * DEVELOPER NOTE: In a JavaScript frontend, you would show a code input after
+	 * requesting the link, and call POST /magic-link-api/verify-code with the
+	 * email address and code. The response is the same as for POST /verify.
+	 */
+	router.post('/verify-code', async (req, res) => {
+		const email = req.body?.email as string;
+		const code = req.body?.code as string;
+
+		if (!email || !code) {
+			const { t } = getLocale(req);
+
+			return sendPage(req, res, 'verify-failure', {
+				title: t('ui.missing_code_title'),
+				message: t('ui.missing_code'),
+				link_label: t('ui.request_code')
+			}, 400);
+		}
+
+		// Like a link, the code only works in the browser that requested it when
+		// links are bound (see POST /verify)
+		const otp = req.body?.otp as string | undefined;
+		const verifier = req.cookies?.[VERIFIER_COOKIE] as string | undefined;
+
+		return verifyAndRender(
+			req,
+			res,
+			'/magic-link-api/verify-code',
+			{ email, code, ...(otp && { otp }) },
+			verifier ? { code_verifier: verifier } : {}
+		);
+	});
+
+	/**
+	 * GET /account - Show the signed-in user, with a sign-out button
+	 *
+	 * Directus authenticates the request with its session cookie, as for the
+	 * Data Studio. Browsers without a session are sent to the login page first.
+	 */
+	router.get('/account', async (req, res) => {
+		const { locale, t, explicit } = getLocale(req);
+		const userId = req.accountability?.user;
+
+		if (!userId) {
+			return res.redirect(303, withQueryParams(baseUrl, {
+				next: `${baseUrl}/account`,
+				locale: explicit ? locale : undefined
+			}));
 		}
 
 		try {
-			// Server-to-server call to verify the token
-			// The API will return user data and authentication tokens
-			const response = await fetch(`${config.internalUrl}/magic-link-api/verify?token=${token}`);
-			const data = await response.json();
-			
-			if (data.success && data.data?.user) {
-				// Success - show user information
-				// In a real app, you'd use the tokens to maintain the session
-				const user = data.data.user;
-				
-				// Styles for the success page
-				const additionalStyles = `
-					.success-icon {
-						font-size: 48px;
-						margin-bottom: 20px;
-					}
-					.success-message {
-						background: #f0fff4;
-						color: #22543d;
-						border: 1px solid #9ae6b4;
-						padding: 12px;
-						border-radius: 5px;
-						margin-bottom: 20px;
-					}
-					.user-profile {
-						background: #f8f9fa;
-						border-radius: 8px;
-						padding: 20px;
-						margin: 20px 0;
-						text-align: left;
-					}
-					.user-profile h3 {
-						color: #495057;
-						margin-bottom: 15px;
-						font-size: 18px;
-					}
-					.user-field {
-						display: flex;
-						justify-content: space-between;
-						padding: 10px 0;
-						border-bottom: 1px solid #dee2e6;
-					}
-					.user-field:last-child {
-						border-bottom: none;
-					}
-					.user-field strong {
-						color: #495057;
-						font-weight: 500;
-					}
-					.user-field span {
-						color: #6c757d;
-					}
-					.info-box {
-						background: #e3f2fd;
-						border-radius: 8px;
-						padding: 15px;
-						margin: 20px 0;
-						font-size: 14px;
-						color: #333;
-					}
-					.token-display {
-						background: #f5f5f5;
-						padding: 10px;
-						border-radius: 5px;
-						margin-top: 10px;
-						font-family: monospace;
-						font-size: 12px;
-						word-break: break-all;
-					}
-					.actions {
-						margin-top: 30px;
-					}
-					.actions a {
-						margin: 0 10px;
-					}
-				`;
-
-				// Display user information
-				// In production, you wouldn't show tokens, but this is helpful for debugging
-				const content = `
-					<div class="success-icon">✅</div>
-					<h1 style="color: #27ae60;">Magic Link Verified!</h1>
-					<div class="success-message">
-						Your identity has been successfully verified.
-					</div>
-					
-					<div class="user-profile">
-						<h3>👤 User Information</h3>
-						<div class="user-field">
-							<strong>ID:</strong>
-							<span>${user.id}</span>
-						</div>
-						<div class="user-field">
-							<strong>Email:</strong>
-							<span>${user.email}</span>
-						</div>
-						${user.first_name ? `
-						<div class="user-field">
-							<strong>First Name:</strong>
-							<span>${user.first_name}</span>
-						</div>
-						` : ''}
-						${user.last_name ? `
-						<div class="user-field">
-							<strong>Last Name:</strong>
-							<span>${user.last_name}</span>
-						</div>
-						` : ''}
-					</div>
-					
-					<div class="info-box">
-						<strong>🔑 Authentication Details:</strong><br>
-						Authentication tokens have been generated successfully.<br>
-						<br>
-						<strong>What happens in a real application:</strong><br>
-						• The access_token would be stored for API calls<br>
-						• The refresh_token is set as an HTTP-only cookie<br>
-						• You would be redirected to your application dashboard<br>
-						<br>
-						<strong>Token Info (for debugging):</strong>
-						<div class="token-display">
-							Access Token: ${data.data.access_token ? data.data.access_token.substring(0, 20) + '...' : 'Not provided'}<br>
-							Expires in: ${data.data.expires ? Math.round(data.data.expires / 1000 / 60) + ' minutes' : 'Unknown'}
-						</div>
-					</div>
-					
-					<div class="actions">
-						<a href="${config.publicUrl}/magic-link-ui">Try Another Email</a>
-					</div>
-				`;
-				
-				res.type('html');
-				res.send(createHTMLPage('Verification Successful', content, additionalStyles));
-			} else {
-				throw new Error(data.message || 'Verification failed');
-			}
+			const [user, settings] = await Promise.all([
+				database('directus_users').select('id', 'email', 'first_name', 'last_name').where({ id: userId }).first(),
+				settingsStore.get()
+			]);
+
+			return sendPage(req, res, 'account', {
+				title: t('ui.account_title'),
+				user,
+				continue_url: settings.session_redirect_url
+			});
 		} catch (error) {
-			// Verification failed - show error
-			const content = `
-				<h1 style="color: #e74c3c;">❌ Verification Failed</h1>
-				<p>${error.message || 'This magic link is invalid or has expired.'}</p>
-				<a href="${config.publicUrl}/magic-link-ui">Request a new magic link</a>
-			`;
-			
-			res.type('html');
-			res.status(400).send(createHTMLPage('Verification Failed', content));
+			logger.error(`Error loading magic-link-ui account: ${(error as Error).message}`);
+
+			return sendPage(req, res, 'error', {
+				title: t('ui.error_title'),
+				message: t('ui.error', { message: (error as Error).message }),
+				link_label: t('ui.go_back')
+			}, 500);
+		}
+	});
+
+	/**
+	 * POST /logout - End the Directus session of this browser and drop its cookies
+	 *
+	 * A form rather than a link, so prefetching can't sign anyone out.
+	 */
+	router.post('/logout', async (req, res) => {
+		const { locale, explicit } = getLocale(req);
+		const sessionToken = getRequestSessionToken(env, req);
+
+		if (sessionToken) {
+			try {
+				const { AuthenticationService } = services;
+				const authenticationService = new AuthenticationService({ knex: database, schema: await getSchema() });
+
+				await authenticationService.logout(sessionToken);
+			} catch (error) {
+				logger.error(`Error ending session: ${(error as Error).message}`);
+			}
 		}
+
+		// Clear the cookies of both cookie modes, with the options they were set with
+		for (const mode of ['session', 'cookie'] as const) {
+			const { name, domain, path, secure, sameSite } = getCookieOptions(env, req, mode);
+			res.clearCookie(name, { httpOnly: true, domain, path, secure, sameSite });
+		}
+
+		return res.redirect(303, withQueryParams(baseUrl, {
+			signed_out: 'true',
+			locale: explicit ? locale : undefined
+		}));
 	});
-});
\ No newline at end of file
+});
@@ -0,0 +1,374 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Liquid } from 'liquidjs';
+import type { FooterLink, Settings } from '../shared/settings';
+
+/**
+ * Page templates of the magic-link-ui demo
+ *
+ * Pages are Liquid templates rendered with automatic HTML escaping: every value
+ * is escaped unless a template opts out with `| raw`. Each page is rendered
+ * into the `layout` template as `content`. A page named `login` is looked up in
+ * MAGIC_LINK_UI_TEMPLATES_PATH as `login.liquid`, falling back to the bundled
+ * default below.
+ *
+ * No page uses JavaScript or inline styles; the theme comes from the stylesheet
+ * served at /magic-link-ui/theme.css, so the pages work under a strict Content
+ * Security Policy.
+ *
+ * Every page gets:
+ * - site_name, title, locale
+ * - messages (the ui.* translations, e.g. `{{ messages.send_button }}`)
+ * - base_url (of magic-link-ui), home_url (the login page, keeping the locale)
+ * - locale_param (the explicit locale to keep in forms, or empty)
+ * - next (where to go after signing in, kept in forms, or empty)
+ * - theme (primary_color, secondary_color, logo_url, footer_links, custom_css)
+ */
+
+export type PageName =
+	| 'login'
+	| 'sent'
+	| 'confirm'
+	| 'prompt'
+	| 'verify-success'
+	| 'verify-failure'
+	| 'error'
+	| 'account';
+
+export interface Theme {
+	primary_color: string;
+	secondary_color: string;
+	logo_url: string;
+	footer_links: FooterLink[];
+	custom_css: string;
+}
+
+const DEFAULT_LAYOUT = `<!DOCTYPE html>
+<html lang="{{ locale }}">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta name="robots" content="noindex">
+	<title>{{ title }} - {{ site_name }}</title>
+	<link rel="stylesheet" href="{{ base_url }}/theme.css">
+</head>
+<body>
+	<main class="container">
+		{% if theme.logo_url %}<img class="logo" src="{{ theme.logo_url }}" alt="{{ site_name }}">{% endif %}
+		{{ content | raw }}
+	</main>
+	{% if theme.footer_links.size > 0 %}
+	<footer>
+		{% for link in theme.footer_links %}<a href="{{ link.url }}">{{ link.label }}</a>{% endfor %}
+	</footer>
+	{% endif %}
+</body>
+</html>
+`;
+
+// Hidden fields every form passes on
+const FORM_FIELDS = `{% if locale_param %}<input type="hidden" name="locale" value="{{ locale_param }}">{% endif %}
+	{% if next %}<input type="hidden" name="next" value="{{ next }}">{% endif %}`;
+
+const DEFAULT_PAGES: Record<PageName, string> = {
+	// signed_out (after /logout)
+	login: `
+<h1>🔐 {{ site_name }}</h1>
+{% if signed_out %}<p class="success-message">{{ messages.signed_out }}</p>{% endif %}
+<p>{{ messages.login_intro }}</p>
+
+<form method="POST" action="{{ base_url }}/send">
+	${FORM_FIELDS}
+	<input type="email" name="email" placeholder="{{ messages.email_placeholder }}" required autocomplete="email">
+	<button type="submit">{{ messages.send_button }}</button>
+</form>
+
+<div class="info">
+	<h2>ℹ️ {{ messages.how_it_works }}</h2>
+	<p>{{ messages.step_1 }}</p>
+	<p>{{ messages.step_2 }}</p>
+	<p>{{ messages.step_3 }}</p>
+</div>
+`,
+
+	// email, message, code_enabled, code_inputmode
+	sent: `
+<h1 class="success">✉️ {{ messages.sent_title }}</h1>
+<p>{{ message | default: messages.sent }}</p>
+<p class="hint">{{ messages.expires }}</p>
+
+{% if code_enabled %}
+<form method="POST" action="{{ base_url }}/verify-code" class="code-form">
+	<p>{{ messages.code_form_intro }}</p>
+	<input type="hidden" name="email" value="{{ email }}">
+	${FORM_FIELDS}
+	<input type="text" name="code" placeholder="123456" required autocomplete="one-time-code" inputmode="{{ code_inputmode }}">
+	<button type="submit">{{ messages.code_button }}</button>
+</form>
+{% endif %}
+
+<a class="button" href="{{ home_url }}">{{ messages.send_another }}</a>
+`,
+
+	// token, client_id
+	confirm: `
+<h1>🔐 {{ site_name }}</h1>
+<p>{{ messages.confirm }}</p>
+
+<form method="POST" action="{{ base_url }}/verify">
+	<input type="hidden" name="token" value="{{ token }}">
+	{% if client_id %}<input type="hidden" name="client_id" value="{{ client_id }}">{% endif %}
+	${FORM_FIELDS}
+	<button type="submit">{{ messages.sign_in }}</button>
+</form>
+`,
+
+	// Asks for the code from the email (ask_for: code) or the TOTP code (ask_for: otp)
+	// message, action, fields (name and value of the hidden inputs)
+	prompt: `
+<h1>{% if ask_for == 'code' %}🔑{% else %}🔐{% endif %} {{ title }}</h1>
+<p>{{ message }}</p>
+
+<form method="POST" action="{{ action }}">
+	{% for field in fields %}<input type="hidden" name="{{ field.name }}" value="{{ field.value }}">{% endfor %}
+	${FORM_FIELDS}
+	{% if ask_for == 'code' %}
+	<input type="text" name="code" class="code" autocomplete="off" placeholder="{{ messages.code_placeholder }}" required>
+	{% else %}
+	<input type="text" name="otp" class="code" inputmode="numeric" autocomplete="one-time-code" placeholder="123456" required>
+	{% endif %}
+	<button type="submit">{{ messages.sign_in }}</button>
+</form>
+`,
+
+	// title, message, approved (signed in on another device, or registered and
+	// awaiting approval), user (id, email, first_name, last_name),
+	// access_token (shortened), expires_in
+	'verify-success': `
+{% if approved %}
+<h1 class="success">✅ {{ title }}</h1>
+<p>{{ message }}</p>
+{% else %}
+<div class="success-icon">✅</div>
+<h1 class="success">{{ messages.verified_title }}</h1>
+<div class="success-message">{{ messages.verified }}</div>
+
+<div class="user-profile">
+	<h3>👤 {{ messages.user_info }}</h3>
+	<div class="user-field"><strong>{{ messages.field_id }}:</strong> <span>{{ user.id }}</span></div>
+	<div class="user-field"><strong>{{ messages.field_email }}:</strong> <span>{{ user.email }}</span></div>
+	{% if user.first_name %}<div class="user-field"><strong>{{ messages.field_first_name }}:</strong> <span>{{ user.first_name }}</span></div>{% endif %}
+	{% if user.last_name %}<div class="user-field"><strong>{{ messages.field_last_name }}:</strong> <span>{{ user.last_name }}</span></div>{% endif %}
+</div>
+
+<div class="info-box">
+	<strong>🔑 {{ messages.auth_details }}</strong><br>
+	{{ messages.tokens_generated }}<br>
+	<br>
+	<strong>{{ messages.real_app }}</strong><br>
+	• {{ messages.real_app_access }}<br>
+	• {{ messages.real_app_refresh }}<br>
+	• {{ messages.real_app_redirect }}<br>
+	<br>
+	<strong>{{ messages.token_info }}</strong>
+	<div class="token-display">
+		{{ messages.access_token }}: {{ access_token | default: messages.not_provided }}<br>
+		{{ messages.expires_in }}: {{ expires_in | default: messages.unknown }}
+	</div>
+</div>
+
+<div class="actions">
+	<a class="button" href="{{ home_url }}">{{ messages.try_another }}</a>
+</div>
+{% endif %}
+`,
+
+	// title, message, link_label
+	'verify-failure': `
+<h1 class="failure">❌ {{ title }}</h1>
+<p>{{ message }}</p>
+<a class="button" href="{{ home_url }}">{{ link_label }}</a>
+`,
+
+	// title, message, link_label
+	error: `
+<h1 class="failure">⚠️ {{ title }}</h1>
+<p>{{ message }}</p>
+<a class="button" href="{{ home_url }}">{{ link_label }}</a>
+`,
+
+	// The signed-in user: user (id, email, first_name, last_name), continue_url
+	account: `
+<h1>👤 {{ messages.account_title }}</h1>
+<p>{{ messages.signed_in_as }} <strong>{{ user.email }}</strong></p>
+
+<div class="user-profile">
+	<div class="user-field"><strong>{{ messages.field_id }}:</strong> <span>{{ user.id }}</span></div>
+	<div class="user-field"><strong>{{ messages.field_email }}:</strong> <span>{{ user.email }}</span></div>
+	{% if user.first_name %}<div class="user-field"><strong>{{ messages.field_first_name }}:</strong> <span>{{ user.first_name }}</span></div>{% endif %}
+	{% if user.last_name %}<div class="user-field"><strong>{{ messages.field_last_name }}:</strong> <span>{{ user.last_name }}</span></div>{% endif %}
+</div>
+
+<div class="actions">
+	{% if continue_url %}<p><a class="button" href="{{ continue_url }}">{{ messages.continue }}</a></p>{% endif %}
+	<form method="POST" action="{{ base_url }}/logout">
+		${FORM_FIELDS}
+		<button type="submit" class="secondary">{{ messages.sign_out }}</button>
+	</form>
+</div>
+`
+};
+
+/**
+ * The theme settings (MAGIC_LINK_UI_* or the settings collection) of the pages
+ */
+export function getTheme(settings: Settings): Theme {
+	return {
+		primary_color: settings.ui_primary_color,
+		secondary_color: settings.ui_secondary_color,
+		logo_url: settings.ui_logo_url,
+		footer_links: settings.ui_footer_links,
+		custom_css: settings.ui_custom_css
+	};
+}
+
+/**
+ * The stylesheet of all pages, followed by the custom CSS
+ *
+ * Colors are validated hex values, so they can go into the CSS as they are.
+ */
+export function renderStylesheet(theme: Theme): string {
+	const gradient = `linear-gradient(135deg, ${theme.primary_color} 0%, ${theme.secondary_color} 100%)`;
+
+	return `* { margin: 0; padding: 0; box-sizing: border-box; }
+body {
+	font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+	background: ${gradient};
+	min-height: 100vh;
+	display: flex;
+	flex-direction: column;
+	align-items: center;
+	justify-content: center;
+	padding: 20px;
+}
+.container {
+	background: white;
+	border-radius: 10px;
+	box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+	padding: 40px;
+	max-width: 400px;
+	width: 100%;
+	text-align: center;
+}
+.logo { max-width: 160px; max-height: 64px; margin-bottom: 20px; }
+h1 { margin-bottom: 20px; font-size: 24px; }
+h1.success { color: #27ae60; }
+h1.failure { color: #e74c3c; }
+p { color: #666; margin-bottom: 20px; }
+p.hint { font-size: 14px; color: #999; }
+a.button {
+	display: inline-block;
+	padding: 12px 24px;
+	background: ${gradient};
+	color: white;
+	text-decoration: none;
+	border-radius: 5px;
+	font-weight: 600;
+}
+a.button:hover { transform: translateY(-1px); box-shadow: 0 4px 12px rgba(0,0,0,0.2); }
+input[type="email"], input[type="text"] {
+	width: 100%;
+	padding: 12px 16px;
+	border: 2px solid #e1e8ed;
+	border-radius: 5px;
+	font-size: 16px;
+	margin-bottom: 20px;
+	transition: border-color 0.3s;
+}
+input:focus { outline: none; border-color: ${theme.primary_color}; }
+input.code, .code-form input[type="text"] { font-size: 20px; letter-spacing: 4px; text-align: center; }
+button {
+	width: 100%;
+	padding: 12px;
+	background: ${gradient};
+	color: white;
+	border: none;
+	border-radius: 5px;
+	font-size: 16px;
+	font-weight: 600;
+	cursor: pointer;
+	transition: transform 0.2s;
+}
+button:hover { transform: translateY(-2px); }
+button.secondary { background: white; color: ${theme.primary_color}; border: 2px solid ${theme.primary_color}; }
+.info {
+	background: #f0f8ff;
+	border-left: 4px solid ${theme.primary_color};
+	padding: 15px;
+	margin-top: 30px;
+	border-radius: 5px;
+}
+.info h2 { color: #333; font-size: 16px; margin-bottom: 10px; }
+.info p { text-align: left; font-size: 13px; margin-bottom: 5px; }
+.code-form { border-top: 1px solid #e1e8ed; padding-top: 20px; margin-bottom: 20px; }
+.success-icon { font-size: 48px; margin-bottom: 20px; }
+.success-message {
+	background: #f0fff4;
+	color: #22543d;
+	border: 1px solid #9ae6b4;
+	padding: 12px;
+	border-radius: 5px;
+	margin-bottom: 20px;
+}
+.user-profile { background: #f8f9fa; border-radius: 8px; padding: 20px; margin: 20px 0; text-align: left; }
+.user-profile h3 { color: #495057; margin-bottom: 15px; font-size: 18px; }
+.user-field { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #dee2e6; }
+.user-field:last-child { border-bottom: none; }
+.user-field strong { color: #495057; font-weight: 500; }
+.user-field span { color: #6c757d; }
+.info-box { background: #e3f2fd; border-radius: 8px; padding: 15px; margin: 20px 0; font-size: 14px; color: #333; }
+.token-display {
+	background: #f5f5f5;
+	padding: 10px;
+	border-radius: 5px;
+	margin-top: 10px;
+	font-family: monospace;
+	font-size: 12px;
+	word-break: break-all;
+}
+.actions { margin-top: 30px; }
+footer { margin-top: 20px; text-align: center; }
+footer a { color: white; margin: 0 10px; font-size: 14px; }
+${theme.custom_css}
+`;
+}
+
+export function createPageRenderer(options: { templatesPath?: string }) {
+	const engine = new Liquid({ outputEscape: 'escape' });
+
+	/**
+	 * Read a template from MAGIC_LINK_UI_TEMPLATES_PATH, or return null if there is none
+	 */
+	async function readCustomTemplate(name: string): Promise<string | null> {
+		if (!options.templatesPath) return null;
+
+		try {
+			return await fs.readFile(path.join(path.resolve(options.templatesPath), `${name}.liquid`), 'utf8');
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Render a page inside the layout
+	 */
+	async function render(page: PageName, data: Record<string, unknown>): Promise<string> {
+		const [pageTemplate, layoutTemplate] = await Promise.all([readCustomTemplate(page), readCustomTemplate('layout')]);
+
+		const content = await engine.parseAndRender(pageTemplate ?? DEFAULT_PAGES[page], data);
+
+		return engine.parseAndRender(layoutTemplate ?? DEFAULT_LAYOUT, { ...data, content });
+	}
+
+	return { render };
+}
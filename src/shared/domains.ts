@@ -0,0 +1,40 @@
+/**
+ * Email domain matching
+ *
+ * Entries can be:
+ * - a domain, matching only that domain:          example.com
+ * - a wildcard, matching any of its subdomains:   *.example.com
+ * - a single `*`, matching every domain
+ *
+ * Matching is case-insensitive. `*.example.com` doesn't match `example.com`
+ * itself; list both to allow the domain and its subdomains.
+ */
+
+export function getEmailDomain(email: string): string {
+	return email.substring(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+export function createDomainMatcher(entries: string[]) {
+	const exact = new Set<string>();
+	const wildcards: string[] = [];
+	let matchAll = false;
+
+	for (const entry of entries) {
+		const domain = entry.trim().toLowerCase();
+
+		if (domain === '*') matchAll = true;
+		else if (domain.startsWith('*.')) wildcards.push(domain.substring(1));
+		else if (domain) exact.add(domain);
+	}
+
+	/**
+	 * Whether the domain of the email address matches any entry
+	 */
+	function matches(email: string): boolean {
+		const domain = getEmailDomain(email);
+
+		return matchAll || exact.has(domain) || wildcards.some((suffix) => domain.endsWith(suffix));
+	}
+
+	return { matches, isEmpty: !matchAll && exact.size === 0 && wildcards.length === 0 };
+}
@@ -0,0 +1,26 @@
+import type { RequestHandler } from 'express';
+
+/**
+ * Middleware to parse URL-encoded form data
+ * This is needed because Directus doesn't parse form data by default
+ *
+ * DEVELOPER NOTE: If you're building a JavaScript frontend, you won't need this.
+ * Instead, you'll send JSON data directly to the API endpoints.
+ */
+export const parseFormBody: RequestHandler = (req, _res, next) => {
+	// Skip other content types, and bodies something else already consumed
+	if (!req.is('application/x-www-form-urlencoded') || req.readableEnded) return next();
+
+	let body = '';
+	req.on('data', (chunk) => {
+		body += chunk.toString();
+	});
+	req.on('end', () => {
+		const parsed = new URLSearchParams(body);
+		req.body = {};
+		for (const [key, value] of parsed) {
+			req.body[key] = value;
+		}
+		next();
+	});
+};
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { deDE } from './locales/de-DE';
+import { enUS, type MessageKey } from './locales/en-US';
+import { esES } from './locales/es-ES';
+import { frFR } from './locales/fr-FR';
+import { nlNL } from './locales/nl-NL';
+import type { Logger } from './types';
+
+/**
+ * Translations for emails, API messages and pages
+ *
+ * Bundled catalogs cover the locales below. Dropping `<locale>.json` files
+ * (e.g. `de-DE.json`) into MAGIC_LINK_LOCALES_PATH overrides single messages of
+ * a bundled catalog or adds a new locale; keys missing from a catalog fall back
+ * to the default locale (MAGIC_LINK_DEFAULT_LOCALE), then English.
+ *
+ * Locales match exactly (ignoring case) first, then by language, so `de` and
+ * `de-AT` both pick `de-DE`.
+ */
+
+export type { MessageKey };
+
+export type MessageParams = Record<string, unknown>;
+
+const BUNDLED_CATALOGS: Record<string, Partial<Record<string, string>>> = {
+	'en-US': enUS,
+	'de-DE': deDE,
+	'fr-FR': frFR,
+	'es-ES': esES,
+	'nl-NL': nlNL
+};
+
+const LOCALE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/**
+ * Replace `{{ name }}` placeholders with their parameter, or nothing
+ */
+export function interpolate(message: string, params: MessageParams = {}): string {
+	return message.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+		const value = params[name];
+		return value === undefined || value === null ? '' : String(value);
+	});
+}
+
+/**
+ * Parse an Accept-Language header into locales, most preferred first
+ */
+export function parseAcceptLanguage(header: string | undefined): string[] {
+	if (!header) return [];
+
+	return header
+		.split(',')
+		.map((part, index) => {
+			const [tag, ...params] = part.trim().split(';');
+			const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+			const quality = q ? Number(q.slice(2)) : 1;
+			return { tag: tag!.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+		})
+		.filter(({ tag, quality }) => quality > 0 && LOCALE_PATTERN.test(tag))
+		.sort((a, b) => b.quality - a.quality || a.index - b.index)
+		.map(({ tag }) => tag);
+}
+
+/**
+ * Read override catalogs: every `<locale>.json` file holding an object of messages
+ */
+function readOverrides(localesPath: string, logger: Logger): Record<string, Record<string, string>> {
+	const overrides: Record<string, Record<string, string>> = {};
+
+	let files: string[];
+
+	try {
+		files = fs.readdirSync(localesPath).filter((file) => file.endsWith('.json'));
+	} catch (error) {
+		logger.error(`Could not read locales directory ${localesPath}: ${(error as Error).message}`);
+		return overrides;
+	}
+
+	for (const file of files) {
+		const locale = path.basename(file, '.json');
+		if (!LOCALE_PATTERN.test(locale)) continue;
+
+		try {
+			const messages = JSON.parse(fs.readFileSync(path.join(localesPath, file), 'utf8'));
+
+			if (!messages || typeof messages !== 'object' || Array.isArray(messages)) {
+				throw new Error('expected an object of messages');
+			}
+
+			overrides[locale] = Object.fromEntries(
+				Object.entries(messages).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+			);
+		} catch (error) {
+			logger.error(`Could not read locale file ${file}: ${(error as Error).message}`);
+		}
+	}
+
+	return overrides;
+}
+
+export function createTranslator(options: { localesPath?: string; defaultLocale?: string; logger: Logger }) {
+	const catalogs: Record<string, Partial<Record<string, string>>> = { ...BUNDLED_CATALOGS };
+
+	if (options.localesPath) {
+		for (const [locale, messages] of Object.entries(readOverrides(options.localesPath, options.logger))) {
+			const bundled = Object.keys(catalogs).find((name) => name.toLowerCase() === locale.toLowerCase());
+			catalogs[bundled ?? locale] = { ...catalogs[bundled ?? locale], ...messages };
+		}
+	}
+
+	const locales = Object.keys(catalogs);
+
+	/**
+	 * Find the catalog for a locale: exact match first, then by language
+	 */
+	function match(locale: string | null | undefined): string | null {
+		if (!locale || typeof locale !== 'string') return null;
+
+		const wanted = locale.trim().replace(/_/g, '-').toLowerCase();
+		if (!wanted) return null;
+
+		const exact = locales.find((name) => name.toLowerCase() === wanted);
+		if (exact) return exact;
+
+		const language = wanted.split('-')[0];
+		return locales.find((name) => name.toLowerCase().split('-')[0] === language) ?? null;
+	}
+
+	const defaultLocale = match(options.defaultLocale) ?? 'en-US';
+
+	if (options.defaultLocale && match(options.defaultLocale) === null) {
+		options.logger.warn(`Unknown MAGIC_LINK_DEFAULT_LOCALE "${options.defaultLocale}", using en-US`);
+	}
+
+	/**
+	 * Pick the first candidate there's a catalog for, or the default locale
+	 */
+	function resolve(...candidates: Array<string | null | undefined>): string {
+		for (const candidate of candidates) {
+			const locale = match(candidate);
+			if (locale) return locale;
+		}
+
+		return defaultLocale;
+	}
+
+	/**
+	 * Pick the best catalog for an Accept-Language header, or null
+	 */
+	function negotiate(acceptLanguage: string | undefined): string | null {
+		for (const tag of parseAcceptLanguage(acceptLanguage)) {
+			const locale = match(tag);
+			if (locale) return locale;
+		}
+
+		return null;
+	}
+
+	function translate(locale: string, key: MessageKey, params: MessageParams = {}): string {
+		const message = catalogs[locale]?.[key] ?? catalogs[defaultLocale]?.[key] ?? enUS[key];
+		return interpolate(message, params);
+	}
+
+	/**
+	 * All messages starting with `<prefix>.`, keyed without the prefix (for templates)
+	 */
+	function messages(locale: string, prefix: string, params: MessageParams = {}): Record<string, string> {
+		const result: Record<string, string> = {};
+
+		for (const key of Object.keys(enUS) as MessageKey[]) {
+			if (key.startsWith(`${prefix}.`)) {
+				result[key.slice(prefix.length + 1)] = translate(locale, key, params);
+			}
+		}
+
+		return result;
+	}
+
+	return { locales, defaultLocale, resolve, negotiate, translate, messages };
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
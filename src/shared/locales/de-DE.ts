@@ -0,0 +1,147 @@
+import type { Catalog } from './en-US';
+
+export const deDE: Catalog = {
+	'email.subject': 'Ihr Anmeldelink',
+	'email.login_title': 'Anmeldeanfrage',
+	'email.signup_title': 'Registrierungsanfrage',
+	'email.greeting': 'Hallo {{ name }},',
+	'email.login_intro':
+		'mit dem Link unten melden Sie sich bei {{ site_name }} an. Er ist {{ expiration_minutes }} Minuten lang gültig.',
+	'email.signup_intro':
+		'mit dem Link unten erstellen Sie Ihr Konto und melden sich bei {{ site_name }} an. Er ist {{ expiration_minutes }} Minuten lang gültig.',
+	'email.button': 'Anmelden',
+	'email.code_intro': 'Anmeldung auf einem anderen Gerät? Geben Sie diesen Code ein:',
+	'email.copy_link': 'Oder kopieren Sie diesen Link in Ihren Browser:',
+	'email.requested_from': 'Dieser Link wurde von {{ ip_address }} ({{ user_agent }}) angefordert.',
+	'email.ignore': 'Falls Sie diesen Link nicht angefordert haben, können Sie diese E-Mail ignorieren.',
+	'email.regards': 'Viele Grüße',
+
+	'notice.subject': 'Neue Anmeldung bei {{ site_name }}',
+	'notice.title': 'Neue Anmeldung',
+	'notice.intro':
+		'Ihr Anmeldelink für {{ site_name }} wurde soeben in einem anderen Browser verwendet als dem, in dem er angefordert wurde.',
+	'notice.time': 'Zeit: {{ signed_in_at }}',
+	'notice.ip_address': 'IP-Adresse: {{ ip_address }}',
+	'notice.browser': 'Browser: {{ user_agent }}',
+	'notice.outro': 'Falls Sie das waren, ist nichts weiter zu tun. Falls nicht, wenden Sie sich bitte an Ihre Administration.',
+	'notice.short':
+		'Ihr Anmeldelink für {{ site_name }} wurde soeben in einem anderen Browser verwendet ({{ ip_address }}). Falls Sie das nicht waren, wenden Sie sich bitte an Ihre Administration.',
+
+	'short.link': 'Ihr Anmeldelink für {{ site_name }}: {{ link }} Er läuft in {{ expiration_minutes }} Minuten ab.',
+	'short.code': 'Code: {{ code }}',
+
+	'api.endpoint': 'Magic-Link-Anmeldeendpunkt',
+	'api.link_sent': 'Falls Ihre E-Mail-Adresse bei uns bekannt ist, wurde ein Anmeldelink gesendet',
+	'api.invalid_email': 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+	'api.redirect_not_allowed': 'Die Weiterleitungs-URL ist nicht erlaubt',
+	'api.error': 'Bei der Bearbeitung Ihrer Anfrage ist ein Fehler aufgetreten',
+	'api.authentication_error': 'Bei der Anmeldung ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.',
+	'api.missing_token': 'Ungültiges oder fehlendes Token',
+	'api.missing_code': 'Bitte geben Sie Ihre E-Mail-Adresse und den Code ein',
+	'api.codes_disabled': 'Anmeldecodes sind nicht aktiviert',
+	'api.invalid_link': 'Ungültiger oder abgelaufener Link. Bitte fordern Sie einen neuen an.',
+	'api.invalid_code': 'Ungültiger oder abgelaufener Code. Bitte fordern Sie einen neuen an.',
+	'api.binding_mismatch':
+		'Dieser Link wurde in einem anderen Browser angefordert. Bitte öffnen Sie ihn in dem Browser, in dem Sie ihn angefordert haben.',
+	'api.binding_code_required': 'Dieser Link wurde in einem anderen Browser angefordert. Geben Sie den Code aus der E-Mail ein',
+	'api.tfa_required': 'Geben Sie den Code aus Ihrer Authenticator-App ein',
+	'api.tfa_invalid': 'Der Code ist ungültig. Bitte versuchen Sie es erneut.',
+	'api.tfa_too_many_attempts': 'Zu viele Versuche. Bitte versuchen Sie es später erneut.',
+	'api.authenticated': 'Anmeldung erfolgreich',
+	'api.registered': 'Ihr Konto wurde erstellt und wartet auf Freigabe',
+	'api.approved': 'Sie sind auf Ihrem anderen Gerät angemeldet. Sie können diese Seite schließen.',
+	'api.unknown_client': 'Unbekannte client_id',
+	'api.invalid_mode': 'Ungültiger Modus. Erlaubt sind: {{ modes }}',
+	'api.invalid_code_challenge':
+		'Ungültige code_challenge. Verwenden Sie den base64url-kodierten SHA-256-Hash des Code-Verifiers',
+	'api.confirm_sign_in': 'Bestätigen Sie die Anmeldung, indem Sie das Token an POST /magic-link-api/verify senden',
+	'api.invalid_poll_request': 'Ungültige Anfrage-ID oder ungültiges Geheimnis',
+	'api.forbidden': 'Sie haben keine Berechtigung für diese Ressource',
+	'api.unauthenticated': 'Sie müssen angemeldet sein, um auf diese Ressource zuzugreifen',
+	'api.session_not_found': 'Sitzung nicht gefunden',
+	'api.unknown_audit_type': 'Unbekannter Protokolltyp. Verwenden Sie attempts oder verifications',
+	'api.invalid_outcome': 'Ungültiges Ergebnis „{{ outcome }}“. Erlaubt sind: {{ outcomes }}',
+	'api.invalid_date':
+		'Ungültiges Datum. Verwenden Sie für „from“ und „to“ ein Datum oder eine Uhrzeit nach ISO 8601',
+	'api.invalid_export_format': 'Ungültiges Format. Verwenden Sie csv oder ndjson',
+	'api.outbox_disabled': 'Der Postausgang ist nicht aktiviert. Setzen Sie MAGIC_LINK_DELIVERY=outbox',
+	'api.message_not_found': 'Nachricht nicht gefunden',
+	'api.template_error': 'Die Vorlage konnte nicht gerendert werden: {{ error }}',
+
+	'page.confirm_title': 'Anmeldung bestätigen',
+	'page.sign_in_to': 'Bei {{ site_name }} anmelden',
+	'page.confirm': 'Klicken Sie auf die Schaltfläche, um die Anmeldung abzuschließen.',
+	'page.code_required':
+		'Dieser Link wurde in einem anderen Browser angefordert. Geben Sie den Code aus der E-Mail ein, um die Anmeldung abzuschließen.',
+	'page.tfa_required': 'Geben Sie den Code aus Ihrer Authenticator-App ein, um die Anmeldung abzuschließen.',
+	'page.code_and_tfa_required':
+		'Dieser Link wurde in einem anderen Browser angefordert. Geben Sie den Code aus der E-Mail und den Code aus Ihrer Authenticator-App ein, um die Anmeldung abzuschließen.',
+	'page.sign_in': 'Anmelden',
+	'page.code_placeholder': 'Code aus der E-Mail',
+	'page.failed_title': 'Anmeldung fehlgeschlagen',
+	'page.registered_title': 'Konto erstellt',
+	'page.approved_title': 'Angemeldet',
+
+	'ui.login_title': 'Anmeldung',
+	'ui.login_intro': 'Geben Sie Ihre E-Mail-Adresse ein, um einen sicheren Anmeldelink zu erhalten',
+	'ui.email_placeholder': 'ihre@email.de',
+	'ui.send_button': 'Anmeldelink senden',
+	'ui.how_it_works': "So funktioniert's",
+	'ui.step_1': '1. Geben Sie Ihre E-Mail-Adresse ein',
+	'ui.step_2': '2. Suchen Sie in Ihrem Posteingang nach dem Anmeldelink',
+	'ui.step_3': '3. Klicken Sie auf den Link, um sich zu bestätigen',
+	'ui.sent_title': 'Prüfen Sie Ihre E-Mails',
+	'ui.sent_page_title': 'Anmeldelink gesendet',
+	'ui.sent': 'Ein Anmeldelink wurde an Ihre E-Mail-Adresse gesendet.',
+	'ui.expires': 'Der Link ist {{ minutes }} Minuten lang gültig.',
+	'ui.code_form_intro': 'Oder geben Sie den Code aus der E-Mail ein:',
+	'ui.code_button': 'Mit Code anmelden',
+	'ui.send_another': 'Neuen Link senden',
+	'ui.send_failed_title': 'Etwas ist schiefgelaufen',
+	'ui.send_failed': 'Der Anmeldelink konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+	'ui.try_again': 'Erneut versuchen',
+	'ui.error_title': 'Fehler',
+	'ui.error': 'Ein Fehler ist aufgetreten: {{ message }}',
+	'ui.go_back': 'Zurück',
+	'ui.code_title': 'Code eingeben',
+	'ui.code_placeholder': 'Code aus der E-Mail',
+	'ui.tfa_title': 'Zwei-Faktor-Authentifizierung',
+	'ui.sign_in': 'Anmelden',
+	'ui.signed_in_title': 'Angemeldet',
+	'ui.verified_title': 'Anmeldelink bestätigt!',
+	'ui.verified_page_title': 'Bestätigung erfolgreich',
+	'ui.verified': 'Ihre Identität wurde erfolgreich bestätigt.',
+	'ui.user_info': 'Benutzerinformationen',
+	'ui.field_id': 'ID',
+	'ui.field_email': 'E-Mail',
+	'ui.field_first_name': 'Vorname',
+	'ui.field_last_name': 'Nachname',
+	'ui.auth_details': 'Anmeldedetails:',
+	'ui.tokens_generated': 'Die Anmeldetokens wurden erfolgreich erstellt.',
+	'ui.real_app': 'In einer echten Anwendung:',
+	'ui.real_app_access': 'Das access_token würde für API-Aufrufe gespeichert',
+	'ui.real_app_refresh': 'Das refresh_token wird als HTTP-only-Cookie gesetzt',
+	'ui.real_app_redirect': 'Sie würden zum Dashboard Ihrer Anwendung weitergeleitet',
+	'ui.token_info': 'Token-Informationen (zur Fehlersuche):',
+	'ui.access_token': 'Access Token',
+	'ui.expires_in': 'Läuft ab in',
+	'ui.minutes': '{{ minutes }} Minuten',
+	'ui.not_provided': 'Nicht vorhanden',
+	'ui.unknown': 'Unbekannt',
+	'ui.try_another': 'Andere E-Mail-Adresse versuchen',
+	'ui.verify_failed_title': 'Bestätigung fehlgeschlagen',
+	'ui.verify_failed': 'Dieser Anmeldelink ist ungültig oder abgelaufen.',
+	'ui.request_new_link': 'Neuen Anmeldelink anfordern',
+	'ui.invalid_link_title': 'Ungültiger Link',
+	'ui.request_link': 'Neuen Link anfordern',
+	'ui.confirm_title': 'Anmeldung bestätigen',
+	'ui.confirm': 'Klicken Sie auf die Schaltfläche, um die Anmeldung abzuschließen.',
+	'ui.missing_code_title': 'Code fehlt',
+	'ui.missing_code': 'Bitte geben Sie den Code aus der E-Mail ein.',
+	'ui.request_code': 'Neuen Code anfordern',
+	'ui.account_title': 'Ihr Konto',
+	'ui.signed_in_as': 'Angemeldet als',
+	'ui.continue': 'Weiter',
+	'ui.sign_out': 'Abmelden',
+	'ui.signed_out': 'Sie wurden abgemeldet.'
+};
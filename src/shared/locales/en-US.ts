@@ -0,0 +1,154 @@
+/**
+ * English messages - the reference catalog every other catalog is checked against
+ *
+ * `{{ name }}` placeholders are filled in when a message is used.
+ */
+export const enUS = {
+	// Magic link email
+	'email.subject': 'Your Magic Login Link',
+	'email.login_title': 'Login Request',
+	'email.signup_title': 'Sign-up Request',
+	'email.greeting': 'Hi {{ name }},',
+	'email.login_intro': 'Use the link below to log in to {{ site_name }}. It expires in {{ expiration_minutes }} minutes.',
+	'email.signup_intro':
+		'Use the link below to create your account and log in to {{ site_name }}. It expires in {{ expiration_minutes }} minutes.',
+	'email.button': 'Log in',
+	'email.code_intro': 'Signing in on another device? Enter this code:',
+	'email.copy_link': 'Or copy this link into your browser:',
+	'email.requested_from': 'This link was requested from {{ ip_address }} ({{ user_agent }}).',
+	'email.ignore': "If you didn't request this link, you can safely ignore this email.",
+	'email.regards': 'Best regards,',
+
+	// Notice sent when a link is used in another browser
+	'notice.subject': 'New sign-in to {{ site_name }}',
+	'notice.title': 'New Sign-in',
+	'notice.intro': 'Your login link for {{ site_name }} was just used in a different browser than the one it was requested from.',
+	'notice.time': 'Time: {{ signed_in_at }}',
+	'notice.ip_address': 'IP address: {{ ip_address }}',
+	'notice.browser': 'Browser: {{ user_agent }}',
+	'notice.outro': "If this was you, there's nothing to do. If it wasn't, please contact your administrator.",
+	'notice.short':
+		"Your {{ site_name }} login link was just used in another browser ({{ ip_address }}). If this wasn't you, please contact your administrator.",
+
+	// Short message for SMS and webhooks
+	'short.link': 'Your {{ site_name }} login link: {{ link }} It expires in {{ expiration_minutes }} minutes.',
+	'short.code': 'Code: {{ code }}',
+
+	// API responses
+	'api.endpoint': 'Magic Link Authentication Endpoint',
+	'api.link_sent': 'If your email exists in our system, a magic link has been sent',
+	'api.invalid_email': 'Please provide a valid email address',
+	'api.redirect_not_allowed': 'The redirect URL is not allowed',
+	'api.error': 'An error occurred while processing your request',
+	'api.authentication_error': 'An error occurred during authentication. Please try again.',
+	'api.missing_token': 'Invalid or missing token',
+	'api.missing_code': 'Please provide your email address and code',
+	'api.codes_disabled': 'Sign-in codes are not enabled',
+	'api.invalid_link': 'Invalid or expired link. Please request a new one.',
+	'api.invalid_code': 'Invalid or expired code. Please request a new one.',
+	'api.binding_mismatch': 'This link was requested from another browser. Please open it in the browser you requested it from.',
+	'api.binding_code_required': 'This link was requested from another browser. Enter the code from the email',
+	'api.tfa_required': 'Enter the code from your authenticator app',
+	'api.tfa_invalid': 'The code is not valid. Please try again.',
+	'api.tfa_too_many_attempts': 'Too many attempts. Please try again later.',
+	'api.authenticated': 'Authentication successful',
+	'api.registered': 'Your account has been created and is awaiting approval',
+	'api.approved': "You're signed in on your other device. You can close this page.",
+	'api.unknown_client': 'Unknown client_id',
+	'api.invalid_mode': 'Invalid mode. Use one of: {{ modes }}',
+	'api.invalid_code_challenge': 'Invalid code_challenge. Use the base64url encoded SHA-256 hash of the code verifier',
+	'api.confirm_sign_in': 'Confirm sign-in by sending the token to POST /magic-link-api/verify',
+	'api.invalid_poll_request': 'Invalid request ID or secret',
+	'api.forbidden': 'You do not have permission to access this resource',
+	'api.unauthenticated': 'You need to be signed in to access this resource',
+	'api.session_not_found': 'Session not found',
+	'api.unknown_audit_type': 'Unknown audit record type. Use attempts or verifications',
+	'api.invalid_outcome': 'Invalid outcome "{{ outcome }}". Use one of: {{ outcomes }}',
+	'api.invalid_date':
+		'Invalid date. Use an ISO 8601 date or date-time for "from" and "to"',
+	'api.invalid_export_format': 'Invalid format. Use csv or ndjson',
+	'api.outbox_disabled': 'The outbox is not enabled. Set MAGIC_LINK_DELIVERY=outbox',
+	'api.message_not_found': 'Message not found',
+	'api.template_error': 'Could not render template: {{ error }}',
+
+	// Pages served by the API
+	'page.confirm_title': 'Confirm sign-in',
+	'page.sign_in_to': 'Sign in to {{ site_name }}',
+	'page.confirm': 'Press the button below to finish signing in.',
+	'page.code_required': 'This link was requested from another browser. Enter the code from the email to finish signing in.',
+	'page.tfa_required': 'Enter the code from your authenticator app to finish signing in.',
+	'page.code_and_tfa_required':
+		'This link was requested from another browser. Enter the code from the email and the code from your authenticator app to finish signing in.',
+	'page.sign_in': 'Sign in',
+	'page.code_placeholder': 'Code from the email',
+	'page.failed_title': 'Sign-in failed',
+	'page.registered_title': 'Account created',
+	'page.approved_title': 'Signed in',
+
+	// magic-link-ui pages
+	'ui.login_title': 'Login',
+	'ui.login_intro': 'Enter your email to receive a secure login link',
+	'ui.email_placeholder': 'your@email.com',
+	'ui.send_button': 'Send Magic Link',
+	'ui.how_it_works': 'How it works',
+	'ui.step_1': '1. Enter your email address',
+	'ui.step_2': '2. Check your inbox for a magic link',
+	'ui.step_3': '3. Click the link to verify your identity',
+	'ui.sent_title': 'Check Your Email',
+	'ui.sent_page_title': 'Magic Link Sent',
+	'ui.sent': 'A magic link has been sent to your email address.',
+	'ui.expires': 'The link will expire in {{ minutes }} minutes.',
+	'ui.code_form_intro': 'Or enter the code from the email:',
+	'ui.code_button': 'Sign in with code',
+	'ui.send_another': 'Send another link',
+	'ui.send_failed_title': 'Something went wrong',
+	'ui.send_failed': 'Could not send magic link. Please try again.',
+	'ui.try_again': 'Try again',
+	'ui.error_title': 'Error',
+	'ui.error': 'An error occurred: {{ message }}',
+	'ui.go_back': 'Go back',
+	'ui.code_title': 'Enter Your Code',
+	'ui.code_placeholder': 'Code from the email',
+	'ui.tfa_title': 'Two-Factor Authentication',
+	'ui.sign_in': 'Sign in',
+	'ui.signed_in_title': 'Signed In',
+	'ui.verified_title': 'Magic Link Verified!',
+	'ui.verified_page_title': 'Verification Successful',
+	'ui.verified': 'Your identity has been successfully verified.',
+	'ui.user_info': 'User Information',
+	'ui.field_id': 'ID',
+	'ui.field_email': 'Email',
+	'ui.field_first_name': 'First Name',
+	'ui.field_last_name': 'Last Name',
+	'ui.auth_details': 'Authentication Details:',
+	'ui.tokens_generated': 'Authentication tokens have been generated successfully.',
+	'ui.real_app': 'What happens in a real application:',
+	'ui.real_app_access': 'The access_token would be stored for API calls',
+	'ui.real_app_refresh': 'The refresh_token is set as an HTTP-only cookie',
+	'ui.real_app_redirect': 'You would be redirected to your application dashboard',
+	'ui.token_info': 'Token Info (for debugging):',
+	'ui.access_token': 'Access Token',
+	'ui.expires_in': 'Expires in',
+	'ui.minutes': '{{ minutes }} minutes',
+	'ui.not_provided': 'Not provided',
+	'ui.unknown': 'Unknown',
+	'ui.try_another': 'Try Another Email',
+	'ui.verify_failed_title': 'Verification Failed',
+	'ui.verify_failed': 'This magic link is invalid or has expired.',
+	'ui.request_new_link': 'Request a new magic link',
+	'ui.invalid_link_title': 'Invalid Link',
+	'ui.request_link': 'Request a new link',
+	'ui.confirm_title': 'Confirm Sign-in',
+	'ui.confirm': 'Press the button below to finish signing in.',
+	'ui.missing_code_title': 'Missing Code',
+	'ui.missing_code': 'Please enter the code from the email.',
+	'ui.request_code': 'Request a new code',
+	'ui.account_title': 'Your Account',
+	'ui.signed_in_as': 'Signed in as',
+	'ui.continue': 'Continue',
+	'ui.sign_out': 'Sign out',
+	'ui.signed_out': 'You have been signed out.'
+};
+
+export type MessageKey = keyof typeof enUS;
+export type Catalog = Record<MessageKey, string>;
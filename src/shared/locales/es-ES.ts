@@ -0,0 +1,145 @@
+import type { Catalog } from './en-US';
+
+export const esES: Catalog = {
+	'email.subject': 'Tu enlace de acceso',
+	'email.login_title': 'Solicitud de acceso',
+	'email.signup_title': 'Solicitud de registro',
+	'email.greeting': 'Hola {{ name }}:',
+	'email.login_intro':
+		'Usa el enlace de abajo para iniciar sesión en {{ site_name }}. Caduca en {{ expiration_minutes }} minutos.',
+	'email.signup_intro':
+		'Usa el enlace de abajo para crear tu cuenta e iniciar sesión en {{ site_name }}. Caduca en {{ expiration_minutes }} minutos.',
+	'email.button': 'Iniciar sesión',
+	'email.code_intro': '¿Inicias sesión en otro dispositivo? Introduce este código:',
+	'email.copy_link': 'O copia este enlace en tu navegador:',
+	'email.requested_from': 'Este enlace se solicitó desde {{ ip_address }} ({{ user_agent }}).',
+	'email.ignore': 'Si no has solicitado este enlace, puedes ignorar este correo.',
+	'email.regards': 'Saludos,',
+
+	'notice.subject': 'Nuevo inicio de sesión en {{ site_name }}',
+	'notice.title': 'Nuevo inicio de sesión',
+	'notice.intro':
+		'Tu enlace de acceso para {{ site_name }} se acaba de usar en un navegador distinto del que lo solicitó.',
+	'notice.time': 'Hora: {{ signed_in_at }}',
+	'notice.ip_address': 'Dirección IP: {{ ip_address }}',
+	'notice.browser': 'Navegador: {{ user_agent }}',
+	'notice.outro': 'Si fuiste tú, no tienes que hacer nada. Si no, ponte en contacto con tu administrador.',
+	'notice.short':
+		'Tu enlace de acceso a {{ site_name }} se acaba de usar en otro navegador ({{ ip_address }}). Si no fuiste tú, ponte en contacto con tu administrador.',
+
+	'short.link': 'Tu enlace de acceso a {{ site_name }}: {{ link }} Caduca en {{ expiration_minutes }} minutos.',
+	'short.code': 'Código: {{ code }}',
+
+	'api.endpoint': 'Endpoint de autenticación por enlace mágico',
+	'api.link_sent': 'Si tu correo existe en nuestro sistema, te hemos enviado un enlace de acceso',
+	'api.invalid_email': 'Introduce una dirección de correo válida',
+	'api.redirect_not_allowed': 'La URL de redirección no está permitida',
+	'api.error': 'Se ha producido un error al procesar tu solicitud',
+	'api.authentication_error': 'Se ha producido un error al iniciar sesión. Inténtalo de nuevo.',
+	'api.missing_token': 'Token no válido o ausente',
+	'api.missing_code': 'Introduce tu dirección de correo y el código',
+	'api.codes_disabled': 'Los códigos de acceso no están activados',
+	'api.invalid_link': 'Enlace no válido o caducado. Solicita uno nuevo.',
+	'api.invalid_code': 'Código no válido o caducado. Solicita uno nuevo.',
+	'api.binding_mismatch': 'Este enlace se solicitó desde otro navegador. Ábrelo en el navegador desde el que lo solicitaste.',
+	'api.binding_code_required': 'Este enlace se solicitó desde otro navegador. Introduce el código del correo',
+	'api.tfa_required': 'Introduce el código de tu aplicación de autenticación',
+	'api.tfa_invalid': 'El código no es válido. Inténtalo de nuevo.',
+	'api.tfa_too_many_attempts': 'Demasiados intentos. Inténtalo de nuevo más tarde.',
+	'api.authenticated': 'Has iniciado sesión correctamente',
+	'api.registered': 'Tu cuenta se ha creado y está pendiente de aprobación',
+	'api.approved': 'Has iniciado sesión en tu otro dispositivo. Puedes cerrar esta página.',
+	'api.unknown_client': 'client_id desconocido',
+	'api.invalid_mode': 'Modo no válido. Usa uno de: {{ modes }}',
+	'api.invalid_code_challenge': 'code_challenge no válido. Usa el hash SHA-256 codificado en base64url del code verifier',
+	'api.confirm_sign_in': 'Confirma el inicio de sesión enviando el token a POST /magic-link-api/verify',
+	'api.invalid_poll_request': 'ID o secreto de solicitud no válido',
+	'api.forbidden': 'No tienes permiso para acceder a este recurso',
+	'api.unauthenticated': 'Tienes que iniciar sesión para acceder a este recurso',
+	'api.session_not_found': 'Sesión no encontrada',
+	'api.unknown_audit_type': 'Tipo de registro de auditoría desconocido. Usa attempts o verifications',
+	'api.invalid_outcome': 'Resultado "{{ outcome }}" no válido. Usa uno de: {{ outcomes }}',
+	'api.invalid_date':
+		'Fecha no válida. Usa una fecha o fecha y hora ISO 8601 para "from" y "to"',
+	'api.invalid_export_format': 'Formato no válido. Usa csv o ndjson',
+	'api.outbox_disabled': 'La bandeja de salida no está activada. Configura MAGIC_LINK_DELIVERY=outbox',
+	'api.message_not_found': 'Mensaje no encontrado',
+	'api.template_error': 'No se pudo generar la plantilla: {{ error }}',
+
+	'page.confirm_title': 'Confirmar inicio de sesión',
+	'page.sign_in_to': 'Iniciar sesión en {{ site_name }}',
+	'page.confirm': 'Pulsa el botón de abajo para terminar de iniciar sesión.',
+	'page.code_required':
+		'Este enlace se solicitó desde otro navegador. Introduce el código del correo para terminar de iniciar sesión.',
+	'page.tfa_required': 'Introduce el código de tu aplicación de autenticación para terminar de iniciar sesión.',
+	'page.code_and_tfa_required':
+		'Este enlace se solicitó desde otro navegador. Introduce el código del correo y el de tu aplicación de autenticación para terminar de iniciar sesión.',
+	'page.sign_in': 'Iniciar sesión',
+	'page.code_placeholder': 'Código del correo',
+	'page.failed_title': 'No se pudo iniciar sesión',
+	'page.registered_title': 'Cuenta creada',
+	'page.approved_title': 'Sesión iniciada',
+
+	'ui.login_title': 'Acceso',
+	'ui.login_intro': 'Introduce tu correo para recibir un enlace de acceso seguro',
+	'ui.email_placeholder': 'tu@correo.es',
+	'ui.send_button': 'Enviar enlace de acceso',
+	'ui.how_it_works': 'Cómo funciona',
+	'ui.step_1': '1. Introduce tu dirección de correo',
+	'ui.step_2': '2. Busca el enlace de acceso en tu bandeja de entrada',
+	'ui.step_3': '3. Haz clic en el enlace para verificar tu identidad',
+	'ui.sent_title': 'Revisa tu correo',
+	'ui.sent_page_title': 'Enlace enviado',
+	'ui.sent': 'Te hemos enviado un enlace de acceso a tu dirección de correo.',
+	'ui.expires': 'El enlace caduca en {{ minutes }} minutos.',
+	'ui.code_form_intro': 'O introduce el código del correo:',
+	'ui.code_button': 'Iniciar sesión con el código',
+	'ui.send_another': 'Enviar otro enlace',
+	'ui.send_failed_title': 'Algo ha salido mal',
+	'ui.send_failed': 'No se pudo enviar el enlace de acceso. Inténtalo de nuevo.',
+	'ui.try_again': 'Intentar de nuevo',
+	'ui.error_title': 'Error',
+	'ui.error': 'Se ha producido un error: {{ message }}',
+	'ui.go_back': 'Volver',
+	'ui.code_title': 'Introduce tu código',
+	'ui.code_placeholder': 'Código del correo',
+	'ui.tfa_title': 'Autenticación en dos pasos',
+	'ui.sign_in': 'Iniciar sesión',
+	'ui.signed_in_title': 'Sesión iniciada',
+	'ui.verified_title': '¡Enlace verificado!',
+	'ui.verified_page_title': 'Verificación correcta',
+	'ui.verified': 'Tu identidad se ha verificado correctamente.',
+	'ui.user_info': 'Información del usuario',
+	'ui.field_id': 'ID',
+	'ui.field_email': 'Correo',
+	'ui.field_first_name': 'Nombre',
+	'ui.field_last_name': 'Apellidos',
+	'ui.auth_details': 'Detalles de la autenticación:',
+	'ui.tokens_generated': 'Los tokens de autenticación se han generado correctamente.',
+	'ui.real_app': 'En una aplicación real:',
+	'ui.real_app_access': 'El access_token se guardaría para las llamadas a la API',
+	'ui.real_app_refresh': 'El refresh_token se guarda en una cookie HTTP-only',
+	'ui.real_app_redirect': 'Se te redirigiría al panel de tu aplicación',
+	'ui.token_info': 'Información del token (depuración):',
+	'ui.access_token': 'Access Token',
+	'ui.expires_in': 'Caduca en',
+	'ui.minutes': '{{ minutes }} minutos',
+	'ui.not_provided': 'No disponible',
+	'ui.unknown': 'Desconocido',
+	'ui.try_another': 'Probar con otro correo',
+	'ui.verify_failed_title': 'Verificación fallida',
+	'ui.verify_failed': 'Este enlace de acceso no es válido o ha caducado.',
+	'ui.request_new_link': 'Solicitar un nuevo enlace de acceso',
+	'ui.invalid_link_title': 'Enlace no válido',
+	'ui.request_link': 'Solicitar un nuevo enlace',
+	'ui.confirm_title': 'Confirmar inicio de sesión',
+	'ui.confirm': 'Pulsa el botón de abajo para terminar de iniciar sesión.',
+	'ui.missing_code_title': 'Falta el código',
+	'ui.missing_code': 'Introduce el código del correo.',
+	'ui.request_code': 'Solicitar un nuevo código',
+	'ui.account_title': 'Tu cuenta',
+	'ui.signed_in_as': 'Sesión iniciada como',
+	'ui.continue': 'Continuar',
+	'ui.sign_out': 'Cerrar sesión',
+	'ui.signed_out': 'Has cerrado la sesión.'
+};
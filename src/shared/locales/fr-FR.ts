@@ -0,0 +1,146 @@
+import type { Catalog } from './en-US';
+
+export const frFR: Catalog = {
+	'email.subject': 'Votre lien de connexion',
+	'email.login_title': 'Demande de connexion',
+	'email.signup_title': "Demande d'inscription",
+	'email.greeting': 'Bonjour {{ name }},',
+	'email.login_intro':
+		'utilisez le lien ci-dessous pour vous connecter à {{ site_name }}. Il expire dans {{ expiration_minutes }} minutes.',
+	'email.signup_intro':
+		'utilisez le lien ci-dessous pour créer votre compte et vous connecter à {{ site_name }}. Il expire dans {{ expiration_minutes }} minutes.',
+	'email.button': 'Se connecter',
+	'email.code_intro': 'Vous vous connectez sur un autre appareil ? Saisissez ce code :',
+	'email.copy_link': 'Ou copiez ce lien dans votre navigateur :',
+	'email.requested_from': 'Ce lien a été demandé depuis {{ ip_address }} ({{ user_agent }}).',
+	'email.ignore': "Si vous n'avez pas demandé ce lien, vous pouvez ignorer cet e-mail.",
+	'email.regards': 'Cordialement,',
+
+	'notice.subject': 'Nouvelle connexion à {{ site_name }}',
+	'notice.title': 'Nouvelle connexion',
+	'notice.intro':
+		'Votre lien de connexion pour {{ site_name }} vient d’être utilisé dans un autre navigateur que celui depuis lequel il a été demandé.',
+	'notice.time': 'Heure : {{ signed_in_at }}',
+	'notice.ip_address': 'Adresse IP : {{ ip_address }}',
+	'notice.browser': 'Navigateur : {{ user_agent }}',
+	'notice.outro': "Si c'était vous, vous n'avez rien à faire. Sinon, veuillez contacter votre administrateur.",
+	'notice.short':
+		"Votre lien de connexion à {{ site_name }} vient d'être utilisé dans un autre navigateur ({{ ip_address }}). Si ce n'était pas vous, veuillez contacter votre administrateur.",
+
+	'short.link': 'Votre lien de connexion à {{ site_name }} : {{ link }} Il expire dans {{ expiration_minutes }} minutes.',
+	'short.code': 'Code : {{ code }}',
+
+	'api.endpoint': 'Point de terminaison d’authentification par lien magique',
+	'api.link_sent': 'Si votre adresse e-mail est connue, un lien de connexion a été envoyé',
+	'api.invalid_email': 'Veuillez saisir une adresse e-mail valide',
+	'api.redirect_not_allowed': "L'URL de redirection n'est pas autorisée",
+	'api.error': 'Une erreur est survenue lors du traitement de votre demande',
+	'api.authentication_error': "Une erreur est survenue lors de l'authentification. Veuillez réessayer.",
+	'api.missing_token': 'Jeton invalide ou manquant',
+	'api.missing_code': 'Veuillez saisir votre adresse e-mail et le code',
+	'api.codes_disabled': 'Les codes de connexion ne sont pas activés',
+	'api.invalid_link': 'Lien invalide ou expiré. Veuillez en demander un nouveau.',
+	'api.invalid_code': 'Code invalide ou expiré. Veuillez en demander un nouveau.',
+	'api.binding_mismatch':
+		'Ce lien a été demandé depuis un autre navigateur. Veuillez l’ouvrir dans le navigateur depuis lequel vous l’avez demandé.',
+	'api.binding_code_required': "Ce lien a été demandé depuis un autre navigateur. Saisissez le code de l'e-mail",
+	'api.tfa_required': "Saisissez le code de votre application d'authentification",
+	'api.tfa_invalid': "Le code n'est pas valide. Veuillez réessayer.",
+	'api.tfa_too_many_attempts': 'Trop de tentatives. Veuillez réessayer plus tard.',
+	'api.authenticated': 'Authentification réussie',
+	'api.registered': 'Votre compte a été créé et attend une validation',
+	'api.approved': 'Vous êtes connecté sur votre autre appareil. Vous pouvez fermer cette page.',
+	'api.unknown_client': 'client_id inconnu',
+	'api.invalid_mode': "Mode invalide. Utilisez l'un de : {{ modes }}",
+	'api.invalid_code_challenge': 'code_challenge invalide. Utilisez le hachage SHA-256 encodé en base64url du code verifier',
+	'api.confirm_sign_in': 'Confirmez la connexion en envoyant le jeton à POST /magic-link-api/verify',
+	'api.invalid_poll_request': 'Identifiant ou secret de requête invalide',
+	'api.forbidden': "Vous n'avez pas l'autorisation d'accéder à cette ressource",
+	'api.unauthenticated': 'Vous devez être connecté pour accéder à cette ressource',
+	'api.session_not_found': 'Session introuvable',
+	'api.unknown_audit_type': "Type d'enregistrement d'audit inconnu. Utilisez attempts ou verifications",
+	'api.invalid_outcome': 'Résultat « {{ outcome }} » invalide. Utilisez l’un de : {{ outcomes }}',
+	'api.invalid_date':
+		'Date invalide. Utilisez une date ou une date-heure ISO 8601 pour « from » et « to »',
+	'api.invalid_export_format': 'Format invalide. Utilisez csv ou ndjson',
+	'api.outbox_disabled': "La boîte d'envoi n'est pas activée. Définissez MAGIC_LINK_DELIVERY=outbox",
+	'api.message_not_found': 'Message introuvable',
+	'api.template_error': 'Impossible de générer le modèle : {{ error }}',
+
+	'page.confirm_title': 'Confirmer la connexion',
+	'page.sign_in_to': 'Se connecter à {{ site_name }}',
+	'page.confirm': 'Cliquez sur le bouton ci-dessous pour terminer la connexion.',
+	'page.code_required':
+		"Ce lien a été demandé depuis un autre navigateur. Saisissez le code de l'e-mail pour terminer la connexion.",
+	'page.tfa_required': "Saisissez le code de votre application d'authentification pour terminer la connexion.",
+	'page.code_and_tfa_required':
+		"Ce lien a été demandé depuis un autre navigateur. Saisissez le code de l'e-mail et celui de votre application d'authentification pour terminer la connexion.",
+	'page.sign_in': 'Se connecter',
+	'page.code_placeholder': "Code de l'e-mail",
+	'page.failed_title': 'Échec de la connexion',
+	'page.registered_title': 'Compte créé',
+	'page.approved_title': 'Connecté',
+
+	'ui.login_title': 'Connexion',
+	'ui.login_intro': 'Saisissez votre adresse e-mail pour recevoir un lien de connexion sécurisé',
+	'ui.email_placeholder': 'vous@exemple.fr',
+	'ui.send_button': 'Envoyer le lien',
+	'ui.how_it_works': 'Comment ça marche',
+	'ui.step_1': '1. Saisissez votre adresse e-mail',
+	'ui.step_2': '2. Cherchez le lien de connexion dans votre boîte de réception',
+	'ui.step_3': '3. Cliquez sur le lien pour confirmer votre identité',
+	'ui.sent_title': 'Consultez vos e-mails',
+	'ui.sent_page_title': 'Lien envoyé',
+	'ui.sent': 'Un lien de connexion a été envoyé à votre adresse e-mail.',
+	'ui.expires': 'Le lien expire dans {{ minutes }} minutes.',
+	'ui.code_form_intro': "Ou saisissez le code de l'e-mail :",
+	'ui.code_button': 'Se connecter avec le code',
+	'ui.send_another': 'Envoyer un autre lien',
+	'ui.send_failed_title': 'Un problème est survenu',
+	'ui.send_failed': "Le lien de connexion n'a pas pu être envoyé. Veuillez réessayer.",
+	'ui.try_again': 'Réessayer',
+	'ui.error_title': 'Erreur',
+	'ui.error': 'Une erreur est survenue : {{ message }}',
+	'ui.go_back': 'Retour',
+	'ui.code_title': 'Saisissez votre code',
+	'ui.code_placeholder': "Code de l'e-mail",
+	'ui.tfa_title': 'Authentification à deux facteurs',
+	'ui.sign_in': 'Se connecter',
+	'ui.signed_in_title': 'Connecté',
+	'ui.verified_title': 'Lien de connexion vérifié !',
+	'ui.verified_page_title': 'Vérification réussie',
+	'ui.verified': 'Votre identité a bien été vérifiée.',
+	'ui.user_info': "Informations de l'utilisateur",
+	'ui.field_id': 'ID',
+	'ui.field_email': 'E-mail',
+	'ui.field_first_name': 'Prénom',
+	'ui.field_last_name': 'Nom',
+	'ui.auth_details': "Détails de l'authentification :",
+	'ui.tokens_generated': "Les jetons d'authentification ont bien été générés.",
+	'ui.real_app': 'Dans une vraie application :',
+	'ui.real_app_access': "L'access_token serait conservé pour les appels à l'API",
+	'ui.real_app_refresh': 'Le refresh_token est placé dans un cookie HTTP-only',
+	'ui.real_app_redirect': 'Vous seriez redirigé vers le tableau de bord de votre application',
+	'ui.token_info': 'Informations sur le jeton (débogage) :',
+	'ui.access_token': 'Access Token',
+	'ui.expires_in': 'Expire dans',
+	'ui.minutes': '{{ minutes }} minutes',
+	'ui.not_provided': 'Non fourni',
+	'ui.unknown': 'Inconnu',
+	'ui.try_another': 'Essayer une autre adresse',
+	'ui.verify_failed_title': 'Échec de la vérification',
+	'ui.verify_failed': 'Ce lien de connexion est invalide ou a expiré.',
+	'ui.request_new_link': 'Demander un nouveau lien de connexion',
+	'ui.invalid_link_title': 'Lien invalide',
+	'ui.request_link': 'Demander un nouveau lien',
+	'ui.confirm_title': 'Confirmer la connexion',
+	'ui.confirm': 'Cliquez sur le bouton ci-dessous pour terminer la connexion.',
+	'ui.missing_code_title': 'Code manquant',
+	'ui.missing_code': "Veuillez saisir le code de l'e-mail.",
+	'ui.request_code': 'Demander un nouveau code',
+	'ui.account_title': 'Votre compte',
+	'ui.signed_in_as': 'Connecté en tant que',
+	'ui.continue': 'Continuer',
+	'ui.sign_out': 'Se déconnecter',
+	'ui.signed_out': 'Vous avez été déconnecté.'
+};
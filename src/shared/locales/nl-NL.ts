@@ -0,0 +1,146 @@
+import type { Catalog } from './en-US';
+
+export const nlNL: Catalog = {
+	'email.subject': 'Je inloglink',
+	'email.login_title': 'Inlogverzoek',
+	'email.signup_title': 'Aanmeldverzoek',
+	'email.greeting': 'Hallo {{ name }},',
+	'email.login_intro':
+		'Gebruik de link hieronder om in te loggen bij {{ site_name }}. De link verloopt over {{ expiration_minutes }} minuten.',
+	'email.signup_intro':
+		'Gebruik de link hieronder om je account aan te maken en in te loggen bij {{ site_name }}. De link verloopt over {{ expiration_minutes }} minuten.',
+	'email.button': 'Inloggen',
+	'email.code_intro': 'Log je in op een ander apparaat? Voer deze code in:',
+	'email.copy_link': 'Of kopieer deze link naar je browser:',
+	'email.requested_from': 'Deze link is aangevraagd vanaf {{ ip_address }} ({{ user_agent }}).',
+	'email.ignore': 'Heb je deze link niet aangevraagd? Dan kun je deze e-mail negeren.',
+	'email.regards': 'Met vriendelijke groet,',
+
+	'notice.subject': 'Nieuwe aanmelding bij {{ site_name }}',
+	'notice.title': 'Nieuwe aanmelding',
+	'notice.intro':
+		'Je inloglink voor {{ site_name }} is zojuist gebruikt in een andere browser dan de browser waarin hij is aangevraagd.',
+	'notice.time': 'Tijd: {{ signed_in_at }}',
+	'notice.ip_address': 'IP-adres: {{ ip_address }}',
+	'notice.browser': 'Browser: {{ user_agent }}',
+	'notice.outro': 'Was jij dit? Dan hoef je niets te doen. Zo niet, neem dan contact op met je beheerder.',
+	'notice.short':
+		'Je inloglink voor {{ site_name }} is zojuist in een andere browser gebruikt ({{ ip_address }}). Was jij dit niet? Neem dan contact op met je beheerder.',
+
+	'short.link': 'Je inloglink voor {{ site_name }}: {{ link }} Hij verloopt over {{ expiration_minutes }} minuten.',
+	'short.code': 'Code: {{ code }}',
+
+	'api.endpoint': 'Magic-link-authenticatie-endpoint',
+	'api.link_sent': 'Als je e-mailadres bij ons bekend is, is er een inloglink verstuurd',
+	'api.invalid_email': 'Voer een geldig e-mailadres in',
+	'api.redirect_not_allowed': 'De doorverwijzings-URL is niet toegestaan',
+	'api.error': 'Er is een fout opgetreden bij het verwerken van je verzoek',
+	'api.authentication_error': 'Er is een fout opgetreden bij het inloggen. Probeer het opnieuw.',
+	'api.missing_token': 'Ongeldig of ontbrekend token',
+	'api.missing_code': 'Voer je e-mailadres en de code in',
+	'api.codes_disabled': 'Inlogcodes zijn niet ingeschakeld',
+	'api.invalid_link': 'Ongeldige of verlopen link. Vraag een nieuwe aan.',
+	'api.invalid_code': 'Ongeldige of verlopen code. Vraag een nieuwe aan.',
+	'api.binding_mismatch':
+		'Deze link is in een andere browser aangevraagd. Open hem in de browser waarin je hem hebt aangevraagd.',
+	'api.binding_code_required': 'Deze link is in een andere browser aangevraagd. Voer de code uit de e-mail in',
+	'api.tfa_required': 'Voer de code uit je authenticator-app in',
+	'api.tfa_invalid': 'De code is ongeldig. Probeer het opnieuw.',
+	'api.tfa_too_many_attempts': 'Te veel pogingen. Probeer het later opnieuw.',
+	'api.authenticated': 'Je bent ingelogd',
+	'api.registered': 'Je account is aangemaakt en wacht op goedkeuring',
+	'api.approved': 'Je bent ingelogd op je andere apparaat. Je kunt deze pagina sluiten.',
+	'api.unknown_client': 'Onbekende client_id',
+	'api.invalid_mode': 'Ongeldige modus. Gebruik een van: {{ modes }}',
+	'api.invalid_code_challenge': 'Ongeldige code_challenge. Gebruik de base64url-gecodeerde SHA-256-hash van de code verifier',
+	'api.confirm_sign_in': 'Bevestig het inloggen door het token naar POST /magic-link-api/verify te sturen',
+	'api.invalid_poll_request': 'Ongeldige aanvraag-ID of ongeldig geheim',
+	'api.forbidden': 'Je hebt geen toegang tot deze bron',
+	'api.unauthenticated': 'Je moet ingelogd zijn om deze bron te openen',
+	'api.session_not_found': 'Sessie niet gevonden',
+	'api.unknown_audit_type': 'Onbekend type auditrecord. Gebruik attempts of verifications',
+	'api.invalid_outcome': 'Ongeldige uitkomst "{{ outcome }}". Gebruik een van: {{ outcomes }}',
+	'api.invalid_date':
+		'Ongeldige datum. Gebruik een ISO 8601-datum of -datum en -tijd voor "from" en "to"',
+	'api.invalid_export_format': 'Ongeldig formaat. Gebruik csv of ndjson',
+	'api.outbox_disabled': 'De outbox is niet ingeschakeld. Stel MAGIC_LINK_DELIVERY=outbox in',
+	'api.message_not_found': 'Bericht niet gevonden',
+	'api.template_error': 'De template kon niet worden weergegeven: {{ error }}',
+
+	'page.confirm_title': 'Inloggen bevestigen',
+	'page.sign_in_to': 'Inloggen bij {{ site_name }}',
+	'page.confirm': 'Klik op de knop hieronder om het inloggen af te ronden.',
+	'page.code_required':
+		'Deze link is in een andere browser aangevraagd. Voer de code uit de e-mail in om het inloggen af te ronden.',
+	'page.tfa_required': 'Voer de code uit je authenticator-app in om het inloggen af te ronden.',
+	'page.code_and_tfa_required':
+		'Deze link is in een andere browser aangevraagd. Voer de code uit de e-mail en de code uit je authenticator-app in om het inloggen af te ronden.',
+	'page.sign_in': 'Inloggen',
+	'page.code_placeholder': 'Code uit de e-mail',
+	'page.failed_title': 'Inloggen mislukt',
+	'page.registered_title': 'Account aangemaakt',
+	'page.approved_title': 'Ingelogd',
+
+	'ui.login_title': 'Inloggen',
+	'ui.login_intro': 'Voer je e-mailadres in om een veilige inloglink te ontvangen',
+	'ui.email_placeholder': 'jij@voorbeeld.nl',
+	'ui.send_button': 'Inloglink versturen',
+	'ui.how_it_works': 'Zo werkt het',
+	'ui.step_1': '1. Voer je e-mailadres in',
+	'ui.step_2': '2. Zoek de inloglink in je inbox',
+	'ui.step_3': '3. Klik op de link om je identiteit te bevestigen',
+	'ui.sent_title': 'Check je e-mail',
+	'ui.sent_page_title': 'Inloglink verstuurd',
+	'ui.sent': 'Er is een inloglink naar je e-mailadres verstuurd.',
+	'ui.expires': 'De link verloopt over {{ minutes }} minuten.',
+	'ui.code_form_intro': 'Of voer de code uit de e-mail in:',
+	'ui.code_button': 'Inloggen met code',
+	'ui.send_another': 'Nieuwe link versturen',
+	'ui.send_failed_title': 'Er ging iets mis',
+	'ui.send_failed': 'De inloglink kon niet worden verstuurd. Probeer het opnieuw.',
+	'ui.try_again': 'Opnieuw proberen',
+	'ui.error_title': 'Fout',
+	'ui.error': 'Er is een fout opgetreden: {{ message }}',
+	'ui.go_back': 'Terug',
+	'ui.code_title': 'Voer je code in',
+	'ui.code_placeholder': 'Code uit de e-mail',
+	'ui.tfa_title': 'Tweestapsverificatie',
+	'ui.sign_in': 'Inloggen',
+	'ui.signed_in_title': 'Ingelogd',
+	'ui.verified_title': 'Inloglink bevestigd!',
+	'ui.verified_page_title': 'Verificatie gelukt',
+	'ui.verified': 'Je identiteit is bevestigd.',
+	'ui.user_info': 'Gebruikersgegevens',
+	'ui.field_id': 'ID',
+	'ui.field_email': 'E-mail',
+	'ui.field_first_name': 'Voornaam',
+	'ui.field_last_name': 'Achternaam',
+	'ui.auth_details': 'Inloggegevens:',
+	'ui.tokens_generated': 'De inlogtokens zijn aangemaakt.',
+	'ui.real_app': 'In een echte applicatie:',
+	'ui.real_app_access': 'Het access_token zou worden bewaard voor API-aanroepen',
+	'ui.real_app_refresh': 'Het refresh_token wordt als HTTP-only-cookie gezet',
+	'ui.real_app_redirect': 'Je zou worden doorgestuurd naar het dashboard van je applicatie',
+	'ui.token_info': 'Tokeninformatie (voor debugging):',
+	'ui.access_token': 'Access Token',
+	'ui.expires_in': 'Verloopt over',
+	'ui.minutes': '{{ minutes }} minuten',
+	'ui.not_provided': 'Niet beschikbaar',
+	'ui.unknown': 'Onbekend',
+	'ui.try_another': 'Ander e-mailadres proberen',
+	'ui.verify_failed_title': 'Verificatie mislukt',
+	'ui.verify_failed': 'Deze inloglink is ongeldig of verlopen.',
+	'ui.request_new_link': 'Nieuwe inloglink aanvragen',
+	'ui.invalid_link_title': 'Ongeldige link',
+	'ui.request_link': 'Nieuwe link aanvragen',
+	'ui.confirm_title': 'Inloggen bevestigen',
+	'ui.confirm': 'Klik op de knop hieronder om het inloggen af te ronden.',
+	'ui.missing_code_title': 'Code ontbreekt',
+	'ui.missing_code': 'Voer de code uit de e-mail in.',
+	'ui.request_code': 'Nieuwe code aanvragen',
+	'ui.account_title': 'Uw account',
+	'ui.signed_in_as': 'Ingelogd als',
+	'ui.continue': 'Doorgaan',
+	'ui.sign_out': 'Uitloggen',
+	'ui.signed_out': 'U bent uitgelogd.'
+};
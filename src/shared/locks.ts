@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import type { Knex } from 'knex';
+import { LOCKS_TABLE } from './migrations';
+
+/**
+ * Database leases for work that only one Directus instance may do at a time
+ *
+ * A lease is a row in LOCKS_TABLE with an expiry. Taking it is a single
+ * conditional UPDATE, so exactly one instance wins; if that instance dies, the
+ * lease simply runs out and another one can take it.
+ */
+
+/**
+ * Run the task if the named lease can be taken, and release it afterwards
+ *
+ * Returns false without running the task when another instance holds the lease.
+ */
+export async function withLock(
+	database: Knex,
+	name: string,
+	leaseMs: number,
+	task: () => Promise<void>
+): Promise<boolean> {
+	const owner = crypto.randomUUID();
+
+	// Make sure the row exists - another instance may insert it at the same time
+	try {
+		await database(LOCKS_TABLE).insert({ name, owner: null, locked_until: null });
+	} catch {
+		// Already there
+	}
+
+	const now = new Date();
+
+	const acquired = await database(LOCKS_TABLE)
+		.where({ name })
+		.andWhere((query) => query.whereNull('locked_until').orWhere('locked_until', '<', now))
+		.update({ owner, locked_until: new Date(now.getTime() + leaseMs) });
+
+	if (acquired !== 1) return false;
+
+	try {
+		await task();
+	} finally {
+		await database(LOCKS_TABLE).where({ name, owner }).update({ owner: null, locked_until: null });
+	}
+
+	return true;
+}
@@ -0,0 +1,423 @@
+import type { Knex } from 'knex';
+import type { Logger } from './types';
+
+/**
+ * Schema management for the magic link tables
+ *
+ * Every release that changes the database layout appends a migration to the
+ * list below. Applied versions are recorded in MIGRATIONS_TABLE, so each
+ * instance only runs what it hasn't seen yet. Never edit or reorder a migration
+ * that has already been released - add a new one instead.
+ */
+
+export const MAGIC_LINK_TABLE = 'extension_magic_link';
+export const EVENTS_TABLE = 'extension_magic_link_events';
+export const STATS_TABLE = 'extension_magic_link_stats';
+export const LOCKS_TABLE = 'extension_magic_link_locks';
+export const SESSIONS_TABLE = 'extension_magic_link_sessions';
+export const CLIENTS_TABLE = 'extension_magic_link_clients';
+export const SETTINGS_TABLE = 'extension_magic_link_settings';
+export const MIGRATIONS_TABLE = 'extension_magic_link_migrations';
+
+export interface Migration {
+	version: number;
+	name: string;
+	up: (knex: Knex) => Promise<void>;
+}
+
+export const migrations: Migration[] = [
+	{
+		version: 1,
+		name: 'create-magic-link-table',
+		async up(knex) {
+			// Installations from before automatic migrations created this table by hand
+			// (see README), so adopt an existing table instead of failing
+			if (await knex.schema.hasTable(MAGIC_LINK_TABLE)) return;
+
+			await knex.schema.createTable(MAGIC_LINK_TABLE, (table) => {
+				table.increments('id').primary();
+				table.string('email', 255).notNullable().index('idx_magic_link_email');
+				table.string('token', 255).notNullable().index('idx_magic_link_token');
+				table.timestamp('expires_at').notNullable();
+				table.string('ip_address', 255).notNullable();
+				table.text('user_agent');
+				table.boolean('used').notNullable().defaultTo(false);
+				table.timestamp('created_at').notNullable().index('idx_magic_link_created_at');
+				table.boolean('email_sent').nullable().defaultTo(null);
+				table.string('email_error', 255);
+			});
+		}
+	},
+	{
+		version: 2,
+		name: 'add-token-usage-columns',
+		async up(knex) {
+			// Who consumed a token and when, for single-use links with a grace window
+			await addMissingColumns(knex, {
+				used_at: (table) => table.timestamp('used_at').nullable(),
+				used_ip: (table) => table.string('used_ip', 255).nullable(),
+				used_user_agent: (table) => table.text('used_user_agent').nullable()
+			});
+		}
+	},
+	{
+		version: 3,
+		name: 'invalidate-plaintext-tokens',
+		async up(knex) {
+			// Tokens are stored as HMAC hashes from this version on. Lookups are by hash,
+			// so older plaintext rows can't match anymore; mark them used for the audit trail
+			await knex(MAGIC_LINK_TABLE)
+				.where({ used: false })
+				.update({ used: true, email_error: 'Invalidated by token hashing upgrade' });
+		}
+	},
+	{
+		version: 4,
+		name: 'add-one-time-code-columns',
+		async up(knex) {
+			// Hash of the optional one-time code and the number of attempts made with it
+			await addMissingColumns(knex, {
+				code: (table) => table.string('code', 255).nullable(),
+				code_attempts: (table) => table.integer('code_attempts').notNullable().defaultTo(0)
+			});
+		}
+	},
+	{
+		version: 5,
+		name: 'add-registration-columns',
+		async up(knex) {
+			// Links sent to unknown addresses when self-registration is enabled, with the
+			// name given at request time, used to create the user once the link is verified
+			await addMissingColumns(knex, {
+				registration: (table) => table.boolean('registration').notNullable().defaultTo(false),
+				first_name: (table) => table.string('first_name', 50).nullable(),
+				last_name: (table) => table.string('last_name', 50).nullable()
+			});
+		}
+	},
+	{
+		version: 6,
+		name: 'add-cross-device-columns',
+		async up(knex) {
+			// Requests made with cross_device: the ID the requesting device polls with, a
+			// hash of the secret only it holds, and when the link was approved and the
+			// session handed over
+			await addMissingColumns(knex, {
+				request_id: (table) => table.string('request_id', 64).nullable().index('idx_magic_link_request_id'),
+				request_secret: (table) => table.string('request_secret', 255).nullable(),
+				approved_at: (table) => table.timestamp('approved_at').nullable(),
+				claimed_at: (table) => table.timestamp('claimed_at').nullable()
+			});
+		}
+	},
+	{
+		version: 7,
+		name: 'add-attempt-outcomes',
+		async up(knex) {
+			// Outcome of each request (pending, sent, send_failed, rate_limited, denied),
+			// so the audit API doesn't have to interpret email_error
+			await addMissingColumns(knex, {
+				outcome: (table) => table.string('outcome', 20).nullable().index('idx_magic_link_outcome')
+			});
+
+			// Derive it for existing rows from the reasons recorded so far
+			await knex(MAGIC_LINK_TABLE)
+				.whereNull('outcome')
+				.whereIn('email_error', ['Rate limit exceeded', 'IP rate limit exceeded', 'Global send limit exceeded'])
+				.update({ outcome: 'rate_limited' });
+
+			await knex(MAGIC_LINK_TABLE)
+				.whereNull('outcome')
+				.whereIn('email_error', [
+					'User does not exist',
+					'User role not allowed',
+					'User role disallowed',
+					'Email domain blocked',
+					'Disposable email domain',
+					'Email domain not allowed'
+				])
+				.update({ outcome: 'denied' });
+
+			await knex(MAGIC_LINK_TABLE).whereNull('outcome').where({ email_sent: true }).update({ outcome: 'sent' });
+			await knex(MAGIC_LINK_TABLE).whereNull('outcome').where({ email_sent: false }).update({ outcome: 'send_failed' });
+			await knex(MAGIC_LINK_TABLE).whereNull('outcome').update({ outcome: 'pending' });
+
+			// Verification attempts, successful or not, for the audit trail
+			if (!(await knex.schema.hasTable(EVENTS_TABLE))) {
+				await knex.schema.createTable(EVENTS_TABLE, (table) => {
+					table.increments('id').primary();
+					table.integer('magic_link').nullable().index('idx_magic_link_events_magic_link');
+					table.string('email', 255).nullable().index('idx_magic_link_events_email');
+					table.string('method', 20).notNullable();
+					table.string('outcome', 20).notNullable();
+					table.string('reason', 255).nullable();
+					table.string('ip_address', 255).nullable();
+					table.text('user_agent').nullable();
+					table.timestamp('created_at').notNullable().index('idx_magic_link_events_created_at');
+				});
+			}
+		}
+	},
+	{
+		version: 8,
+		name: 'add-retention-tables',
+		async up(knex) {
+			// Daily counts per outcome of the records removed by the retention job
+			if (!(await knex.schema.hasTable(STATS_TABLE))) {
+				await knex.schema.createTable(STATS_TABLE, (table) => {
+					table.increments('id').primary();
+					table.string('day', 10).notNullable();
+					table.string('type', 20).notNullable();
+					table.string('outcome', 20).notNullable();
+					table.integer('count').notNullable().defaultTo(0);
+					table.unique(['day', 'type', 'outcome'], { indexName: 'idx_magic_link_stats_day_type_outcome' });
+				});
+			}
+
+			// Leases for jobs that only one instance may run at a time
+			if (!(await knex.schema.hasTable(LOCKS_TABLE))) {
+				await knex.schema.createTable(LOCKS_TABLE, (table) => {
+					table.string('name', 100).primary();
+					table.string('owner', 100).nullable();
+					table.timestamp('locked_until').nullable();
+				});
+			}
+		}
+	},
+	{
+		version: 9,
+		name: 'add-sessions-table',
+		async up(knex) {
+			// Sessions created through magic links, with the device they were created
+			// on. Migration 15 adds the hash of the token they're tracked by
+			if (!(await knex.schema.hasTable(SESSIONS_TABLE))) {
+				await knex.schema.createTable(SESSIONS_TABLE, (table) => {
+					table.increments('id').primary();
+					table.string('user', 64).notNullable().index('idx_magic_link_sessions_user');
+					table.string('mode', 20).notNullable();
+					table.string('ip', 255).nullable();
+					table.text('user_agent').nullable();
+					table.string('origin', 255).nullable();
+					table.timestamp('created_at').notNullable();
+					table.timestamp('expires_at').notNullable();
+				});
+			}
+		}
+	},
+	{
+		version: 10,
+		name: 'add-browser-binding-column',
+		async up(knex) {
+			// Hash of the code challenge of links bound to the requesting browser
+			await addMissingColumns(knex, {
+				binding: (table) => table.string('binding', 255).nullable()
+			});
+		}
+	},
+	{
+		version: 11,
+		name: 'add-clients-table',
+		async up(knex) {
+			// Applications requesting magic links, each with its own settings
+			if (!(await knex.schema.hasTable(CLIENTS_TABLE))) {
+				await knex.schema.createTable(CLIENTS_TABLE, (table) => {
+					table.string('id', 64).primary();
+					table.string('name', 255).nullable();
+					table.boolean('enabled').notNullable().defaultTo(true);
+					table.text('redirect_urls').nullable();
+					table.string('email_template', 100).nullable();
+					table.string('email_subject', 255).nullable();
+					table.string('email_from', 255).nullable();
+					table.integer('expiration_minutes').nullable();
+					table.text('allowed_roles').nullable();
+					table.string('post_login_url', 255).nullable();
+				});
+			}
+
+			// Show it in the Data Studio, where admins manage the clients
+			await registerCollection(knex, CLIENTS_TABLE, {
+				icon: 'apps',
+				note: 'Applications that request magic links'
+			});
+
+			// The client each link was requested by
+			await addMissingColumns(knex, {
+				client: (table) => table.string('client', 64).nullable().index('idx_magic_link_client')
+			});
+		}
+	},
+	{
+		version: 12,
+		name: 'add-settings-table',
+		async up(knex) {
+			// Settings admins can change at runtime (see shared/settings.ts); empty
+			// fields fall back to the environment
+			if (!(await knex.schema.hasTable(SETTINGS_TABLE))) {
+				await knex.schema.createTable(SETTINGS_TABLE, (table) => {
+					table.increments('id').primary();
+					table.integer('expiration_minutes').nullable();
+					table.string('email_subject', 255).nullable();
+					table.string('email_template', 100).nullable();
+					table.string('email_from', 255).nullable();
+					table.string('site_name', 255).nullable();
+					table.string('session_redirect_url', 255).nullable();
+					table.integer('max_requests_per_hour').nullable();
+					table.integer('max_requests_per_ip_per_hour').nullable();
+					table.integer('max_emails_per_hour').nullable();
+					table.text('allowed_roles').nullable();
+					table.text('disallowed_roles').nullable();
+				});
+			}
+
+			await registerCollection(knex, SETTINGS_TABLE, {
+				icon: 'tune',
+				note: 'Magic link settings - empty fields use the MAGIC_LINK_* environment variables',
+				singleton: true
+			});
+		}
+	},
+	{
+		version: 13,
+		name: 'add-ui-theme-settings',
+		async up(knex) {
+			// Theme of the magic-link-ui pages
+			await addMissingColumns(
+				knex,
+				{
+					ui_primary_color: (table) => table.string('ui_primary_color', 32).nullable(),
+					ui_secondary_color: (table) => table.string('ui_secondary_color', 32).nullable(),
+					ui_logo_url: (table) => table.string('ui_logo_url', 255).nullable(),
+					ui_footer_links: (table) => table.text('ui_footer_links').nullable(),
+					ui_custom_css: (table) => table.text('ui_custom_css').nullable()
+				},
+				SETTINGS_TABLE
+			);
+		}
+	},
+	{
+		version: 14,
+		name: 'add-delivery-channel-column',
+		async up(knex) {
+			// Channel a link was delivered through (email, webhook, sms); email_sent and
+			// email_error hold the delivery status for all of them
+			await addMissingColumns(knex, {
+				channel: (table) => table.string('channel', 16).nullable()
+			});
+		}
+	},
+	{
+		version: 15,
+		name: 'add-session-token-column',
+		async up(knex) {
+			// Sessions are tracked by a hash of their token from now on. Records made
+			// before can't be tied to a session, so they're dropped
+			await knex(SESSIONS_TABLE).delete();
+
+			await addMissingColumns(
+				knex,
+				{ token: (table) => table.string('token', 64).nullable().index('idx_magic_link_sessions_token') },
+				SESSIONS_TABLE
+			);
+		}
+	}
+];
+
+/**
+ * Add a table to directus_collections, so the Data Studio lists it as a collection
+ */
+async function registerCollection(knex: Knex, collection: string, meta: Record<string, unknown>): Promise<void> {
+	const existing = await knex.select('collection').from('directus_collections').where({ collection }).first();
+	if (existing) return;
+
+	await knex('directus_collections').insert({ collection, ...meta });
+}
+
+/**
+ * Add the given columns to a table (the magic link table unless given), skipping
+ * those that already exist
+ *
+ * Keeps migrations idempotent on MySQL, where a failed migration can leave
+ * columns behind because DDL isn't transactional.
+ */
+async function addMissingColumns(
+	knex: Knex,
+	columns: Record<string, (table: Knex.AlterTableBuilder) => void>,
+	tableName = MAGIC_LINK_TABLE
+): Promise<void> {
+	for (const [column, define] of Object.entries(columns)) {
+		if (await knex.schema.hasColumn(tableName, column)) continue;
+
+		await knex.schema.alterTable(tableName, (table) => define(table));
+	}
+}
+
+/**
+ * Create the version table if needed and return the versions already applied
+ */
+async function getAppliedVersions(database: Knex): Promise<Set<number>> {
+	if (!(await database.schema.hasTable(MIGRATIONS_TABLE))) {
+		try {
+			await database.schema.createTable(MIGRATIONS_TABLE, (table) => {
+				table.integer('version').primary();
+				table.string('name', 255).notNullable();
+				table.timestamp('applied_at').notNullable();
+			});
+		} catch (error) {
+			// Another instance may have created it in the meantime
+			if (!(await database.schema.hasTable(MIGRATIONS_TABLE))) throw error;
+		}
+	}
+
+	const rows = await database.select('version').from(MIGRATIONS_TABLE);
+	return new Set(rows.map((row) => Number(row.version)));
+}
+
+/**
+ * Apply all pending migrations in order
+ *
+ * Safe to run on several instances at once: the version table's primary key
+ * makes sure only one of them records a given version. On databases with
+ * transactional DDL (Postgres, SQLite) the losing instance's changes are
+ * rolled back; the migrations themselves are written to be idempotent for
+ * MySQL, which commits DDL implicitly.
+ */
+export async function runMigrations(database: Knex, logger: Logger): Promise<number[]> {
+	const applied = await getAppliedVersions(database);
+	const pending = migrations.filter((migration) => !applied.has(migration.version));
+
+	if (pending.length === 0) {
+		logger.debug(`Magic link schema is up to date (version ${Math.max(0, ...applied)})`);
+		return [];
+	}
+
+	const migrated: number[] = [];
+
+	for (const migration of pending) {
+		try {
+			await database.transaction(async (trx) => {
+				await migration.up(trx);
+				await trx(MIGRATIONS_TABLE).insert({
+					version: migration.version,
+					name: migration.name,
+					applied_at: new Date()
+				});
+			});
+
+			migrated.push(migration.version);
+			logger.info(`Magic link schema migrated to version ${migration.version} (${migration.name})`);
+		} catch (error) {
+			const existing = await database
+				.select('version')
+				.from(MIGRATIONS_TABLE)
+				.where({ version: migration.version })
+				.first();
+
+			// Applied concurrently by another instance - nothing left to do
+			if (existing) continue;
+
+			throw error;
+		}
+	}
+
+	return migrated;
+}
@@ -0,0 +1,91 @@
+/**
+ * Redirect URL allowlist
+ *
+ * Entries can be:
+ * - an origin, allowing any path on it:           https://app.example.com
+ * - a path prefix on an origin:                   https://example.com/portal/
+ * - a wildcard for any subdomain of a domain:     https://*.example.com (optionally with a path prefix)
+ *
+ * Scheme and port always have to match. A path prefix matches whole segments, so
+ * `https://example.com/portal` allows `/portal` and `/portal/verify` but not `/portal-evil`.
+ */
+
+interface AllowlistEntry {
+	protocol: string;
+	hostname: string;
+	wildcard: boolean;
+	port: string;
+	pathPrefix: string;
+}
+
+function parseEntry(entry: string): AllowlistEntry | null {
+	const wildcard = /^[a-z][a-z0-9+.-]*:\/\/\*\./i.test(entry);
+
+	try {
+		// URL can't parse a `*` label, so substitute a placeholder for it
+		const url = new URL(wildcard ? entry.replace('://*.', '://wildcard.') : entry);
+
+		return {
+			protocol: url.protocol,
+			hostname: wildcard ? url.hostname.replace(/^wildcard\./, '') : url.hostname,
+			wildcard,
+			port: url.port,
+			pathPrefix: url.pathname === '/' ? '' : url.pathname
+		};
+	} catch {
+		return null;
+	}
+}
+
+function matchesEntry(url: URL, entry: AllowlistEntry): boolean {
+	if (url.protocol !== entry.protocol || url.port !== entry.port) return false;
+
+	if (entry.wildcard) {
+		if (!url.hostname.endsWith(`.${entry.hostname}`)) return false;
+	} else if (url.hostname !== entry.hostname) {
+		return false;
+	}
+
+	if (!entry.pathPrefix) return true;
+	if (entry.pathPrefix.endsWith('/')) return url.pathname.startsWith(entry.pathPrefix);
+
+	return url.pathname === entry.pathPrefix || url.pathname.startsWith(`${entry.pathPrefix}/`);
+}
+
+export function createRedirectAllowlist(entries: string[]) {
+	const parsed = entries.map((entry) => ({ entry, rule: parseEntry(entry) }));
+	const invalid = parsed.filter(({ rule }) => !rule).map(({ entry }) => entry);
+	const rules = parsed.map(({ rule }) => rule).filter((rule): rule is AllowlistEntry => Boolean(rule));
+
+	function isAllowed(value: unknown): boolean {
+		if (typeof value !== 'string') return false;
+
+		let url: URL;
+
+		try {
+			url = new URL(value);
+		} catch {
+			return false;
+		}
+
+		// Credentials in a URL are a classic way to disguise its real host
+		if (url.username || url.password) return false;
+
+		return rules.some((rule) => matchesEntry(url, rule));
+	}
+
+	return { isAllowed, invalid };
+}
+
+/**
+ * Add query parameters to a URL, keeping its existing query string and fragment
+ */
+export function withQueryParams(value: string, params: Record<string, string | undefined>): string {
+	const url = new URL(value);
+
+	for (const [key, param] of Object.entries(params)) {
+		if (param !== undefined) url.searchParams.set(key, param);
+	}
+
+	return url.toString();
+}
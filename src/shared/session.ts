@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import type { Accountability } from '@directus/types';
+import type { CookieOptions, Request, Response } from 'express';
+import type { DirectusRequest, ExtensionContext } from './types';
+import { getMilliseconds, toBoolean } from './utils';
+
+/**
+ * Session handling for verified magic links
+ *
+ * Mirrors the three modes of Directus' own /auth/login:
+ * - json:    tokens are returned in the response body only
+ * - cookie:  the refresh token is set as the directus_refresh_token cookie
+ * - session: a session JWT (with a `session` claim pointing at the
+ *            directus_sessions row) is set as the directus_session_token
+ *            cookie, which is what the Data Studio app authenticates with
+ */
+
+export const AUTH_MODES = ['json', 'cookie', 'session'] as const;
+export type AuthMode = (typeof AUTH_MODES)[number];
+
+export interface SessionTokens {
+	accessToken: string;
+	refreshToken: string;
+	expires: number;
+}
+
+export function isAuthMode(value: unknown): value is AuthMode {
+	return typeof value === 'string' && (AUTH_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Lifetime of a session, from the same env variables Directus uses for its own logins
+ */
+export function getSessionTtl(env: Record<string, any>, mode: AuthMode): number {
+	return mode === 'session'
+		? getMilliseconds(env.SESSION_COOKIE_TTL, 24 * 60 * 60 * 1000)
+		: getMilliseconds(env.REFRESH_TOKEN_TTL, 7 * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Create a Directus session for the user and exchange it for access/refresh tokens
+ */
+export async function createSession(
+	{ services, database, env }: Pick<ExtensionContext, 'services' | 'database' | 'env'>,
+	req: DirectusRequest,
+	userId: string,
+	mode: AuthMode
+): Promise<SessionTokens> {
+	const { AuthenticationService } = services;
+
+	// Create a refresh token
+	const refreshToken = crypto.randomBytes(32).toString('hex');
+	const refreshTokenExpiration = new Date(Date.now() + getSessionTtl(env, mode));
+
+	// Store refresh token in the database with user ID
+	await database('directus_sessions').insert({
+		token: refreshToken,
+		user: userId,
+		expires: refreshTokenExpiration,
+		ip: req.ip,
+		user_agent: req.get('user-agent'),
+		origin: req.get('origin')
+	});
+
+	// Use AuthenticationService to generate access and refresh tokens. Like the
+	// accountability of Directus' own /auth routes, it only describes the client
+	const accountability: Accountability = {
+		role: null,
+		roles: [],
+		user: null,
+		admin: false,
+		app: false,
+		ip: req.ip ?? null,
+		userAgent: req.get('user-agent'),
+		origin: req.get('origin')
+	};
+
+	const authenticationService = new AuthenticationService({ accountability, schema: req.schema });
+
+	// The refresh method creates new tokens from an existing refresh token. In
+	// session mode the access token carries the session claim Directus needs
+	const {
+		accessToken,
+		refreshToken: newRefreshToken,
+		expires
+	} = await authenticationService.refresh(refreshToken, { session: mode === 'session' });
+
+	// Depending on the Directus version, the refresh either rotates the token in
+	// place or starts a new row and keeps the old one around - don't keep it
+	if (newRefreshToken && newRefreshToken !== refreshToken) {
+		await database('directus_sessions').where({ token: refreshToken }).delete();
+	}
+
+	return { accessToken, refreshToken: newRefreshToken!, expires };
+}
+
+/**
+ * Cookie options for the given mode, taken from the same env variables Directus uses
+ *
+ * When the Directus cookie settings aren't configured, fall back to deriving
+ * them from the request origin so cross-origin frontends keep working.
+ */
+export function getCookieOptions(
+	env: Record<string, any>,
+	req: Request,
+	mode: 'cookie' | 'session'
+): CookieOptions & { name: string } {
+	const prefix = mode === 'session' ? 'SESSION_COOKIE' : 'REFRESH_TOKEN_COOKIE';
+
+	// Get CORS origin and protocol
+	const origin = req.get('origin') || '';
+	const host = req.get('host');
+	const isCrossOrigin = Boolean(origin && host && !origin.includes(host));
+
+	const secure =
+		toBoolean(env[`${prefix}_SECURE`]) ??
+		(origin.startsWith('https://') || process.env.NODE_ENV === 'production');
+
+	const sameSite = (env[`${prefix}_SAME_SITE`] as CookieOptions['sameSite']) ?? (isCrossOrigin ? 'none' : 'lax');
+
+	const name =
+		env[`${prefix}_NAME`] || (mode === 'session' ? 'directus_session_token' : 'directus_refresh_token');
+
+	return {
+		name,
+		httpOnly: true,
+		domain: env[`${prefix}_DOMAIN`] || undefined,
+		maxAge: getSessionTtl(env, mode),
+		secure,
+		sameSite,
+		path: '/'
+	};
+}
+
+/**
+ * Set the cookie for cookie/session mode; json mode sets no cookie
+ */
+export function setSessionCookie(
+	env: Record<string, any>,
+	req: Request,
+	res: Response,
+	mode: AuthMode,
+	tokens: SessionTokens
+): void {
+	if (mode === 'json') return;
+
+	const { name, ...options } = getCookieOptions(env, req, mode);
+	res.cookie(name, mode === 'session' ? tokens.accessToken : tokens.refreshToken, options);
+}
+
+/**
+ * The Directus session token the request was made with, if it has one
+ *
+ * That's the refresh token cookie, or the `session` claim of the session cookie.
+ * Only used to tell which session is the caller's own - Directus has already
+ * verified the request's credentials at this point.
+ */
+export function getRequestSessionToken(env: Record<string, any>, req: DirectusRequest): string | null {
+	const cookies = req.cookies ?? {};
+
+	const sessionCookie = cookies[env.SESSION_COOKIE_NAME || 'directus_session_token'];
+
+	if (sessionCookie) {
+		try {
+			const payload = JSON.parse(Buffer.from(sessionCookie.split('.')[1] ?? '', 'base64url').toString('utf8'));
+			if (typeof payload.session === 'string') return payload.session;
+		} catch {
+			// Not a JWT
+		}
+	}
+
+	return cookies[env.REFRESH_TOKEN_COOKIE_NAME || 'directus_refresh_token'] || null;
+}
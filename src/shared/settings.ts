@@ -0,0 +1,278 @@
+import type { Knex } from 'knex';
+import { SETTINGS_TABLE } from './migrations';
+import type { Logger } from './types';
+import { toList } from './utils';
+
+/**
+ * Settings admins can change at runtime
+ *
+ * Stored in the SETTINGS_TABLE singleton, which is edited in the Data Studio.
+ * Every setting has an environment variable as its default: empty fields fall
+ * back to it. Settings named in MAGIC_LINK_LOCKED_SETTINGS (or all of them, with
+ * `*`) are pinned to the environment and can't be changed in the Data Studio.
+ *
+ * Settings are cached for CACHE_TTL_MS; the magic-link-settings hook drops the
+ * cache of this instance as soon as they're saved.
+ */
+
+type SettingType = 'integer' | 'string' | 'email' | 'url' | 'list' | 'template' | 'color' | 'links' | 'css';
+
+interface SettingDefinition {
+	env: string;
+	type: SettingType;
+	// Smallest value allowed for integers
+	min?: number;
+	default: (env: Record<string, any>) => unknown;
+}
+
+export const SETTINGS = {
+	expiration_minutes: { env: 'MAGIC_LINK_EXPIRATION_MINUTES', type: 'integer', min: 1, default: () => 15 },
+	email_subject: { env: 'MAGIC_LINK_SUBJECT', type: 'string', default: () => '' },
+	email_template: { env: 'MAGIC_LINK_EMAIL_TEMPLATE', type: 'template', default: () => 'magic-link' },
+	email_from: { env: 'MAGIC_LINK_EMAIL_FROM', type: 'email', default: () => '' },
+	site_name: { env: 'MAGIC_LINK_SITE_NAME', type: 'string', default: () => '' },
+	session_redirect_url: {
+		env: 'MAGIC_LINK_SESSION_REDIRECT_URL',
+		type: 'url',
+		default: (env) => `${env.PUBLIC_URL || ''}/admin`
+	},
+	max_requests_per_hour: { env: 'MAGIC_LINK_MAX_REQUESTS_PER_HOUR', type: 'integer', min: 0, default: () => 5 },
+	max_requests_per_ip_per_hour: {
+		env: 'MAGIC_LINK_MAX_REQUESTS_PER_IP_PER_HOUR',
+		type: 'integer',
+		min: 0,
+		default: () => 20
+	},
+	max_emails_per_hour: { env: 'MAGIC_LINK_MAX_EMAILS_PER_HOUR', type: 'integer', min: 0, default: () => 1000 },
+	allowed_roles: { env: 'MAGIC_LINK_ALLOWED_ROLES', type: 'list', default: () => [] },
+	disallowed_roles: { env: 'MAGIC_LINK_DISALLOWED_ROLES', type: 'list', default: () => [] },
+	ui_primary_color: { env: 'MAGIC_LINK_UI_PRIMARY_COLOR', type: 'color', default: () => '#667eea' },
+	ui_secondary_color: { env: 'MAGIC_LINK_UI_SECONDARY_COLOR', type: 'color', default: () => '#764ba2' },
+	ui_logo_url: { env: 'MAGIC_LINK_UI_LOGO_URL', type: 'url', default: () => '' },
+	ui_footer_links: { env: 'MAGIC_LINK_UI_FOOTER_LINKS', type: 'links', default: () => [] },
+	ui_custom_css: { env: 'MAGIC_LINK_UI_CUSTOM_CSS', type: 'css', default: () => '' }
+} satisfies Record<string, SettingDefinition>;
+
+export type SettingName = keyof typeof SETTINGS;
+
+export interface Settings {
+	expiration_minutes: number;
+	email_subject: string;
+	email_template: string;
+	email_from: string;
+	site_name: string;
+	session_redirect_url: string;
+	max_requests_per_hour: number;
+	max_requests_per_ip_per_hour: number;
+	max_emails_per_hour: number;
+	allowed_roles: string[];
+	disallowed_roles: string[];
+	ui_primary_color: string;
+	ui_secondary_color: string;
+	ui_logo_url: string;
+	ui_footer_links: FooterLink[];
+	ui_custom_css: string;
+}
+
+export interface FooterLink {
+	label: string;
+	url: string;
+}
+
+const CACHE_TTL_MS = 30 * 1000;
+
+// Bumped when settings are saved on this instance; shared by all extensions of the bundle
+let generation = 0;
+
+/**
+ * Drop the cached settings of every store on this instance
+ */
+export function invalidateSettings(): void {
+	generation++;
+}
+
+function isSettingName(name: string): name is SettingName {
+	return Object.prototype.hasOwnProperty.call(SETTINGS, name);
+}
+
+function isHttpUrl(value: string): boolean {
+	try {
+		return /^https?:$/.test(new URL(value).protocol);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parse footer links: `Label=https://...` entries, comma or line separated
+ */
+function parseLinks(value: unknown): FooterLink[] | undefined {
+	const links: FooterLink[] = [];
+
+	for (const entry of toList(String(value).replace(/\n/g, ','))) {
+		const separator = entry.indexOf('=');
+		const label = entry.slice(0, separator).trim();
+		const url = entry.slice(separator + 1).trim();
+
+		if (separator < 1 || !label || !isHttpUrl(url)) return undefined;
+
+		links.push({ label, url });
+	}
+
+	return links;
+}
+
+function isEmpty(value: unknown): boolean {
+	return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Convert a stored or environment value to the setting's type; undefined if it isn't valid
+ */
+function parseValue(definition: SettingDefinition, value: unknown): unknown {
+	switch (definition.type) {
+		case 'integer': {
+			const number = typeof value === 'number' ? value : Number(String(value).trim());
+			return Number.isInteger(number) && number >= (definition.min ?? 0) ? number : undefined;
+		}
+		case 'list':
+			return Array.isArray(value) ? toList(value) : toList(String(value).replace(/\n/g, ','));
+		case 'email':
+			return typeof value === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$|^.+<[^\s@]+@[^\s@]+\.[^\s@]+>$/.test(value.trim())
+				? value.trim()
+				: undefined;
+		case 'url':
+			return isHttpUrl(String(value)) ? String(value) : undefined;
+		case 'template':
+			return typeof value === 'string' && /^[\w.-]+$/.test(value.trim()) ? value.trim() : undefined;
+		case 'color':
+			return typeof value === 'string' && /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(value.trim()) ? value.trim() : undefined;
+		case 'links':
+			return parseLinks(value);
+		case 'css':
+			// The CSS ends up in a <style> element, which it must not be able to close
+			return typeof value === 'string' && !value.includes('<') ? value : undefined;
+		default:
+			return String(value);
+	}
+}
+
+function describeType(definition: SettingDefinition): string {
+	switch (definition.type) {
+		case 'integer':
+			return `a whole number of at least ${definition.min ?? 0}`;
+		case 'email':
+			return 'an email address';
+		case 'url':
+			return 'an http(s) URL';
+		case 'template':
+			return 'a template name (letters, digits, "_", "." and "-")';
+		case 'color':
+			return 'a hex color such as #667eea';
+		case 'links':
+			return 'a list of Label=https://... links';
+		case 'css':
+			return 'CSS without "<"';
+		default:
+			return 'text';
+	}
+}
+
+export function createSettingsStore(database: Knex, env: Record<string, any>, logger: Logger) {
+	const lockedList = toList(env.MAGIC_LINK_LOCKED_SETTINGS);
+	const locked = new Set<SettingName>(
+		lockedList.includes('*') ? (Object.keys(SETTINGS) as SettingName[]) : lockedList.filter(isSettingName)
+	);
+
+	for (const name of lockedList) {
+		if (name !== '*' && !isSettingName(name)) logger.warn(`Ignoring unknown MAGIC_LINK_LOCKED_SETTINGS entry "${name}"`);
+	}
+
+	/**
+	 * The settings as given by the environment, with the built-in defaults for the rest
+	 */
+	const defaults = Object.fromEntries(
+		Object.entries(SETTINGS).map(([name, definition]: [string, SettingDefinition]) => {
+			const value = env[definition.env];
+			const parsed = isEmpty(value) ? undefined : parseValue(definition, value);
+
+			if (!isEmpty(value) && parsed === undefined) {
+				logger.warn(`Ignoring invalid ${definition.env}: it must be ${describeType(definition)}`);
+			}
+
+			return [name, parsed ?? definition.default(env)];
+		})
+	) as unknown as Settings;
+
+	let cached: { settings: Settings; expires: number; generation: number } | null = null;
+
+	async function load(): Promise<Settings> {
+		const row = await database(SETTINGS_TABLE).select('*').first();
+		const settings: Record<string, unknown> = { ...defaults };
+
+		for (const [name, definition] of Object.entries(SETTINGS) as [SettingName, SettingDefinition][]) {
+			if (locked.has(name) || !row || isEmpty(row[name])) continue;
+
+			const parsed = parseValue(definition, row[name]);
+
+			// Saving validates values, but the table may have been changed directly
+			if (parsed === undefined) {
+				logger.warn(`Ignoring invalid magic link setting ${name}: it must be ${describeType(definition)}`);
+				continue;
+			}
+
+			settings[name] = parsed;
+		}
+
+		return settings as unknown as Settings;
+	}
+
+	/**
+	 * The current settings. The same object is returned until they change
+	 *
+	 * If the table can't be read, the last known settings (or the defaults) are used.
+	 */
+	async function get(): Promise<Settings> {
+		if (cached && cached.expires > Date.now() && cached.generation === generation) return cached.settings;
+
+		const current = generation;
+		let settings: Settings;
+
+		try {
+			settings = await load();
+		} catch (error) {
+			logger.error(`Error reading magic link settings: ${(error as Error).message}`);
+			settings = cached?.settings ?? defaults;
+		}
+
+		// Keep the previous object if nothing changed, so callers can compare by reference
+		if (cached && JSON.stringify(cached.settings) === JSON.stringify(settings)) settings = cached.settings;
+
+		cached = { settings, expires: Date.now() + CACHE_TTL_MS, generation: current };
+
+		return settings;
+	}
+
+	/**
+	 * Check values about to be saved; returns one message per problem
+	 */
+	function validate(values: Record<string, unknown>): string[] {
+		const errors: string[] = [];
+
+		for (const [name, value] of Object.entries(values)) {
+			if (!isSettingName(name)) continue;
+
+			const definition: SettingDefinition = SETTINGS[name];
+
+			if (locked.has(name)) {
+				errors.push(`"${name}" is pinned by ${definition.env} and can't be changed here`);
+			} else if (!isEmpty(value) && parseValue(definition, value) === undefined) {
+				errors.push(`"${name}" must be ${describeType(definition)}`);
+			}
+		}
+
+		return errors;
+	}
+
+	return { get, validate, defaults, locked };
+}
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import { customAlphabet } from 'nanoid';
+
+/**
+ * Magic link token helpers
+ *
+ * Only a keyed hash (HMAC-SHA256) of each token is stored, so read access to the
+ * extension_magic_link table - e.g. browsing it in the Data Studio - isn't enough
+ * to log in as anyone. The key is MAGIC_LINK_SECRET, falling back to the Directus
+ * SECRET, so hashes can be computed on every instance sharing that secret.
+ */
+
+export function generateToken(): string {
+	return crypto.randomBytes(32).toString('hex');
+}
+
+export function createTokenHasher(secret: string) {
+	function hash(token: string): string {
+		return crypto.createHmac('sha256', secret).update(token).digest('hex');
+	}
+
+	/**
+	 * Check a token against a stored hash in constant time
+	 */
+	function matches(token: string, storedHash: unknown): boolean {
+		if (typeof storedHash !== 'string') return false;
+
+		const expected = Buffer.from(hash(token), 'hex');
+		const actual = Buffer.from(storedHash, 'hex');
+
+		return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+	}
+
+	return { hash, matches };
+}
+
+// Alphanumeric codes leave out characters that are easily confused (0/O, 1/I/L)
+const CODE_ALPHABETS = {
+	numeric: '0123456789',
+	alphanumeric: '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
+};
+
+export type CodeFormat = keyof typeof CODE_ALPHABETS;
+
+/**
+ * Generate a one-time code to type in instead of clicking the link
+ */
+export function generateCode(length: number, format: CodeFormat): string {
+	return customAlphabet(CODE_ALPHABETS[format], length)();
+}
+
+/**
+ * Normalize a code as typed by a user: ignore case, spaces and dashes
+ */
+export function normalizeCode(code: unknown): string {
+	return String(code ?? '')
+		.replace(/[\s-]/g, '')
+		.toUpperCase();
+}
+
+/**
+ * Value hashed for a stored code - codes are short, so bind them to the email address
+ */
+export function codeHashInput(email: string, code: string): string {
+	return `code:${email.toLowerCase()}:${normalizeCode(code)}`;
+}
+
+/**
+ * Generate the ID a device polls with after requesting a cross-device link
+ *
+ * The ID starts with the time it was issued, so a poll can be answered with
+ * "pending" or "expired" without revealing whether a link was actually sent.
+ */
+export function generateRequestId(): string {
+	return `${Date.now().toString(36)}.${crypto.randomBytes(16).toString('hex')}`;
+}
+
+/**
+ * Time a request ID was issued, or null if it isn't a valid request ID
+ */
+export function getRequestIssuedAt(requestId: unknown): number | null {
+	if (typeof requestId !== 'string') return null;
+
+	const match = requestId.match(/^([0-9a-z]{1,11})\.[0-9a-f]{32}$/);
+	if (!match) return null;
+
+	const issuedAt = parseInt(match[1]!, 36);
+	return issuedAt <= Date.now() ? issuedAt : null;
+}
+
+/**
+ * PKCE style code challenge for a verifier: the base64url encoded SHA-256 hash (S256)
+ */
+export function createCodeChallenge(verifier: string): string {
+	return crypto.createHash('sha256').update(verifier).digest('base64url');
+}
+
+/**
+ * Short, non-reversible identifier for a token, safe to put in logs
+ */
+export function tokenFingerprint(tokenHash: string): string {
+	return tokenHash.substring(0, 8);
+}
+
+/**
+ * Replace the token in a URL, for logging
+ */
+export function redactToken(url: string, token: string): string {
+	return url.split(token).join('[redacted]');
+}
@@ -0,0 +1,32 @@
+import type { defineHook } from '@directus/extensions-sdk';
+import type { Accountability, SchemaOverview } from '@directus/types';
+import type { Request } from 'express';
+
+/**
+ * Context Directus injects into API extensions (services, database, env, logger, ...)
+ *
+ * The SDK doesn't re-export its context types, so derive them from defineHook.
+ */
+export type ExtensionContext = Parameters<Parameters<typeof defineHook>[0]>[1];
+export type Logger = ExtensionContext['logger'];
+
+// Directus adds the schema and the caller's accountability to every request
+// before it reaches an endpoint, like its own typings of express do
+declare global {
+	namespace Express {
+		interface Request {
+			schema: SchemaOverview;
+			accountability?: Accountability | null;
+		}
+	}
+}
+
+/**
+ * An Express request as Directus hands it to endpoints: with the schema, the
+ * caller's accountability and the parsed cookies
+ */
+export type DirectusRequest = Request & {
+	schema: SchemaOverview;
+	accountability?: Accountability | null;
+	cookies?: Record<string, string>;
+};
@@ -0,0 +1,59 @@
+/**
+ * Small helpers shared by the magic link extensions
+ */
+
+const DURATION_UNITS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Convert a Directus style duration ("15m", "7d", "3600000") to milliseconds
+ */
+export function getMilliseconds(value: unknown, fallback: number): number {
+	if (typeof value === 'number' && Number.isFinite(value)) return value;
+	if (typeof value !== 'string') return fallback;
+
+	const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/i);
+	if (!match) return fallback;
+
+	const unit = (match[2] || 'ms').toLowerCase();
+	return Math.round(parseFloat(match[1]!) * DURATION_UNITS[unit]!);
+}
+
+/**
+ * Read a boolean env variable - Directus may already have cast it to a boolean
+ */
+export function toBoolean(value: unknown): boolean | undefined {
+	if (typeof value === 'boolean') return value;
+	if (value === undefined || value === null || value === '') return undefined;
+	return String(value).toLowerCase() === 'true';
+}
+
+/**
+ * Escape a value for use in HTML text or attribute values
+ */
+export function escapeHtml(value: unknown): string {
+	return String(value ?? '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * Split a comma separated env variable into a list of trimmed, non-empty values
+ */
+export function toList(value: unknown): string[] {
+	if (Array.isArray(value)) return value.map((item) => String(item).trim()).filter(Boolean);
+
+	return String(value ?? '')
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
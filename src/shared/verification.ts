@@ -0,0 +1,111 @@
+import type { Request, Response } from 'express';
+import type { AuthMode, SessionTokens } from './session';
+
+/**
+ * In-process access to the link requests and verification of magic-link-api
+ *
+ * The extensions of the bundle share this module, so magic-link-ui can request
+ * and verify links without a round trip over HTTP: links are recorded with the
+ * browser's IP address and user agent, and the session cookie is set on the
+ * browser's own response. magic-link-api provides the verifier when it's loaded.
+ *
+ * These never write to the response themselves: they return an outcome, which
+ * the caller turns into a page, JSON or a redirect.
+ */
+
+export interface LinkRequestInput {
+	email?: string;
+	// URL the link points at; must pass the redirect allowlist
+	redirectUrl?: string;
+	mode?: string;
+	client_id?: string;
+	// Ties the link to the requesting browser (see binding.ts)
+	code_challenge?: string;
+	cross_device?: boolean | string;
+	// Name for self-registration, used only if the email isn't known yet
+	first_name?: string;
+	last_name?: string;
+}
+
+export type LinkRequestOutcome =
+	| { type: 'error'; status: number; message: string }
+	// Whether or not a link was actually sent, which is never revealed.
+	// Cross-device requests get what the requesting device polls /status with
+	| {
+			type: 'requested';
+			status: 200;
+			message: string;
+			poll: { request_id: string; request_secret: string; expires_at: string } | null;
+	  };
+
+export interface VerificationInput {
+	token?: string;
+	email?: string;
+	code?: string;
+	// TOTP code of users with two-factor authentication
+	otp?: string;
+	mode?: string;
+	client_id?: string;
+	// Proves the browser is the one that requested the link (see binding.ts)
+	code_verifier?: string;
+	// Where to go after signing in; used only if the redirect allowlist allows it
+	next?: string;
+}
+
+export interface VerifiedUser {
+	id: string;
+	email: string;
+	first_name: string | null;
+	last_name: string | null;
+	language?: string | null;
+	[field: string]: unknown;
+}
+
+export type VerificationOutcome =
+	| { type: 'error'; status: number; message: string }
+	// The TOTP code, or the one-time code of a link opened in another browser, is
+	// missing or wrong. `error` is set if a wrong one was given
+	| { type: 'tfa-required'; status: 401; message: string; error: string | null; user: VerifiedUser }
+	| {
+			type: 'code-required';
+			status: 401;
+			message: string;
+			error: string | null;
+			user: VerifiedUser | null;
+			tfaRequired: boolean;
+	  }
+	// A registration link created an account that isn't active yet
+	| { type: 'registered'; status: 202; message: string; user: VerifiedUser }
+	// A cross-device link approved the sign-in of the device that requested it
+	| { type: 'approved'; status: 200; message: string; user: VerifiedUser }
+	| {
+			type: 'signed-in';
+			status: 200;
+			user: VerifiedUser;
+			mode: AuthMode;
+			tokens: SessionTokens;
+			// `next` if it's allowed, else the client's post-login URL or MAGIC_LINK_SESSION_REDIRECT_URL
+			redirectUrl: string;
+			// The binding cookie of magic-link-api was used and can be cleared
+			bindingUsed: boolean;
+	  };
+
+export interface Verifier {
+	// `res` gets the binding cookie of requests without a code challenge
+	requestLink(req: Request, res: Response, input: LinkRequestInput): Promise<LinkRequestOutcome>;
+	verifyLink(req: Request, input: VerificationInput): Promise<VerificationOutcome>;
+	verifyCode(req: Request, input: VerificationInput): Promise<VerificationOutcome>;
+}
+
+let verifier: Verifier | null = null;
+
+export function provideVerifier(value: Verifier): void {
+	verifier = value;
+}
+
+/**
+ * The verifier of magic-link-api, or null if that endpoint isn't loaded
+ */
+export function getVerifier(): Verifier | null {
+	return verifier;
+}